@@ -1,22 +1,121 @@
 import { StorageController } from '../storage-controller';
 import { timeAsync } from '../utils/performance';
 import { VisitStorageManager } from '../searching/visit-storage-manager';
+import { UrlExclusion } from '../feature/url-exclusion';
+import {
+  EDIT_VISIT_ENTRY_MESSAGE,
+  SPLIT_WINDOW_BY_DOMAIN_COMMAND,
+  SPLIT_WINDOW_BY_GROUP_COMMAND,
+  STALE_TAB_ALARM,
+  STALE_TAB_CHECK_INTERVAL_MINUTES,
+  StorageKeys,
+  TAB_COUNT_BADGE_COLOR,
+  TAB_LIMIT_BADGE_COLOR,
+  UNDO_TAB_OPERATION_COMMAND,
+} from '../utils/constants';
+import { TabUndo } from '../feature/tab-undo';
+import {
+  IStoredUrlNormalization,
+  IVisitEntryEditMessage,
+  IVisitEntryEditResponse,
+  TabPlan,
+  VisitEntryEdit,
+} from '../types';
+import { UrlNormalization } from '../feature/url-normalization';
+import { applyStaleTabPolicy, StaleTabRules } from '../feature/stale-tabs';
+import { planSplitCurrentWindow } from '../feature/tab-split';
+import { isPlanEmpty, planDedupe, TAB_PLAN_LABELS } from '../feature/tab-plan';
+import { SettingsManager } from '../feature/settings';
+import { getDedupeRules, queryDedupeTabs } from '../feature/tab-dedupe';
+import {
+  countTabs,
+  findTabsOverLimit,
+  isOverTabLimit,
+} from '../feature/tab-limit';
+import { executeTabPlan } from '../feature/tab-plan-executor';
+
+const storageController = new StorageController();
 
 chrome.runtime.onInstalled.addListener(async details => {
   console.log('Extension installed:', details);
-  if (details.reason === 'install') {
-    console.log('Extension installed. Starting setup process...');
+  if (details.reason === 'install' || details.reason === 'update') {
+    // Visit data of earlier versions was stored without any query
+    // parameters. Split it before the sync adds visits under the new keys.
+    try {
+      await storageController.migrateVisitDataKeys();
+    } catch (error) {
+      console.error('Failed to re-key visit data:', error);
+    }
 
-    await timeAsync('setup', {}, async () => {
-      const storageController = new StorageController();
-      await storageController.initialize();
+    console.log(`Extension ${details.reason}d. Starting history sync...`);
+
+    try {
+      await timeAsync('sync', { reason: details.reason }, async () => {
+        await storageController.sync();
+      });
+    } catch (error) {
+      console.error(`Failed to sync history on ${details.reason}:`, error);
+    }
+  }
+});
+
+chrome.runtime.onStartup.addListener(async () => {
+  try {
+    await timeAsync('sync', { reason: 'startup' }, async () => {
+      await storageController.sync();
     });
+  } catch (error) {
+    console.error('Failed to sync history on startup:', error);
+  }
+});
+
+// Visits are recorded by the tabs listener below, so keep the sync
+// high-water mark in step with the ones it records
+chrome.history.onVisited.addListener(async result => {
+  try {
+    const urlExclusion = await UrlExclusion.getInstance();
+    if (!result.url || urlExclusion.isUrlExcluded(result.url, 'record')) {
+      return;
+    }
+    await storageController.advanceHighWaterMark(
+      result.lastVisitTime ?? Date.now()
+    );
+  } catch (error) {
+    console.error('Failed to update history sync time:', error);
   }
 });
 
+chrome.history.onVisitRemoved.addListener(async removed => {
+  try {
+    await storageController.handleVisitRemoved(removed);
+  } catch (error) {
+    console.error('Failed to handle history removal:', error);
+  }
+});
+
+// Bookmark events come in bursts (imports, folder removals), so resync the
+// bookmark flags once they settle
+const BOOKMARK_SYNC_DELAY = 500;
+let bookmarkSyncTimer: ReturnType<typeof setTimeout> | undefined;
+
+function scheduleBookmarkSync(): void {
+  clearTimeout(bookmarkSyncTimer);
+  bookmarkSyncTimer = setTimeout(async () => {
+    try {
+      await storageController.syncBookmarks();
+    } catch (error) {
+      console.error('Failed to sync bookmarks:', error);
+    }
+  }, BOOKMARK_SYNC_DELAY);
+}
+
+chrome.bookmarks.onCreated.addListener(scheduleBookmarkSync);
+chrome.bookmarks.onChanged.addListener(scheduleBookmarkSync);
+chrome.bookmarks.onRemoved.addListener(scheduleBookmarkSync);
+chrome.bookmarks.onMoved.addListener(scheduleBookmarkSync);
+
 // Track recent visits to prevent duplicate counting
 const recentVisits = new Map<string, number>();
-const VISIT_DEBOUNCE_TIME = 5000; // 5 seconds
 
 chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, updatedTab) => {
   try {
@@ -31,13 +130,23 @@ chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, updatedTab) => {
         return;
       }
 
+      const visitDebounceTime =
+        (await SettingsManager.getInstance()).get('visitDebounceSeconds') *
+        1000;
+
+      const urlExclusion = await UrlExclusion.getInstance();
+      if (urlExclusion.isUrlExcluded(url, 'record')) {
+        console.log('Skipping visit recording for excluded url:', url);
+        return;
+      }
+
       // Create a unique key for this visit (tab + url combination)
       const visitKey = `${tabId}:${url}`;
       const now = Date.now();
 
       // Check if we've recently recorded a visit for this tab/url combination
       const lastVisitTime = recentVisits.get(visitKey);
-      if (lastVisitTime && now - lastVisitTime < VISIT_DEBOUNCE_TIME) {
+      if (lastVisitTime && now - lastVisitTime < visitDebounceTime) {
         console.log('Skipping duplicate visit recording for:', url);
         return;
       }
@@ -46,7 +155,7 @@ chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, updatedTab) => {
       recentVisits.set(visitKey, now);
 
       // Clean up old entries to prevent memory leaks
-      cleanupOldVisits();
+      cleanupOldVisits(visitDebounceTime);
 
       const visitStorageManager = await VisitStorageManager.getInstance();
       await visitStorageManager.recordVisit(updatedTab.url, updatedTab.title);
@@ -64,10 +173,248 @@ chrome.tabs.onUpdated.addListener(async (tabId, changeInfo, updatedTab) => {
   }
 });
 
+// Exclusion rules are edited from the options page, so reload them here and
+// purge entries that are no longer recorded from the visit data. Entries only
+// hidden from search are kept, so they come back if the rule is removed.
+chrome.storage.onChanged.addListener(async (changes, areaName) => {
+  if (areaName !== 'local' || !changes[StorageKeys.EXCLUDED_URLS]) {
+    return;
+  }
+  try {
+    const urlExclusion = await UrlExclusion.getInstance();
+    await urlExclusion.loadFromStorage();
+
+    const visitStorageManager = await VisitStorageManager.getInstance();
+    const removedCount = visitStorageManager.removeVisitData(url =>
+      urlExclusion.isUrlExcluded(url, 'record')
+    );
+    if (removedCount > 0) {
+      await visitStorageManager.saveVisitData();
+      console.log(`Purged ${removedCount} excluded entries from visit data`);
+    }
+  } catch (error) {
+    console.error('Failed to apply URL exclusion rules:', error);
+  }
+});
+
+// Entries are renamed, reset or deleted from the popup, which only reads the
+// visit data. Returning true keeps the channel open for the async reply.
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  if ((message as IVisitEntryEditMessage)?.type !== EDIT_VISIT_ENTRY_MESSAGE) {
+    return false;
+  }
+  editVisitEntry((message as IVisitEntryEditMessage).edit).then(
+    sendResponse,
+    error => {
+      console.error('Failed to edit visit entry:', error);
+      sendResponse({
+        ok: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  );
+  return true;
+});
+
+async function editVisitEntry(
+  edit: VisitEntryEdit
+): Promise<IVisitEntryEditResponse> {
+  const visitStorageManager = await VisitStorageManager.getInstance();
+  if (!visitStorageManager.applyEntryEdit(edit)) {
+    return { ok: false, error: 'The page has no visit data yet' };
+  }
+  await visitStorageManager.saveVisitData();
+  return { ok: true };
+}
+
+chrome.commands.onCommand.addListener(async command => {
+  try {
+    switch (command) {
+      case UNDO_TAB_OPERATION_COMMAND:
+        await new TabUndo().undo();
+        return;
+      case SPLIT_WINDOW_BY_DOMAIN_COMMAND:
+        await applyTabPlan(await planSplitCurrentWindow('domain'));
+        return;
+      case SPLIT_WINDOW_BY_GROUP_COMMAND:
+        await applyTabPlan(await planSplitCurrentWindow('group'));
+        return;
+    }
+  } catch (error) {
+    console.error(`Failed to run command ${command}:`, error);
+  }
+});
+
+// Commands have no popup to preview in, so plans are applied right away and
+// can be undone like the popup buttons
+async function applyTabPlan(plan: TabPlan): Promise<void> {
+  if (isPlanEmpty(plan)) {
+    return;
+  }
+  await new TabUndo().saveSnapshot(TAB_PLAN_LABELS[plan.kind]);
+  await executeTabPlan(plan);
+}
+
+// Alarms outlive the idle service worker. Creating the alarm again on every
+// wake would keep pushing the next check back.
+async function ensureStaleTabAlarm(): Promise<void> {
+  if (!(await chrome.alarms.get(STALE_TAB_ALARM))) {
+    await chrome.alarms.create(STALE_TAB_ALARM, {
+      periodInMinutes: STALE_TAB_CHECK_INTERVAL_MINUTES,
+    });
+  }
+}
+
+ensureStaleTabAlarm().catch(error => {
+  console.error('Failed to schedule stale tab checks:', error);
+});
+
+chrome.alarms.onAlarm.addListener(async alarm => {
+  if (alarm.name !== STALE_TAB_ALARM) {
+    return;
+  }
+  try {
+    const count = await applyStaleTabPolicy();
+    if (count > 0) {
+      console.log(`Applied stale tab policy to ${count} tabs`);
+    }
+  } catch (error) {
+    console.error('Failed to apply stale tab policy:', error);
+  }
+});
+
+// Query parameter rules are edited from the options page. Hosts whose rule
+// is new or keeps other parameters now get their entries split up.
+chrome.storage.onChanged.addListener(async (changes, areaName) => {
+  const change = changes[StorageKeys.URL_NORMALIZATION];
+  if (areaName !== 'local' || !change) {
+    return;
+  }
+  try {
+    await (await UrlNormalization.getInstance()).loadFromStorage();
+    const oldValue = change.oldValue as IStoredUrlNormalization | undefined;
+    const newValue = change.newValue as IStoredUrlNormalization | undefined;
+    const changedHosts = (newValue?.rules ?? [])
+      .filter(rule => {
+        const oldRule = oldValue?.rules.find(r => r.host === rule.host);
+        return oldRule?.params.join() !== rule.params.join();
+      })
+      .map(rule => rule.host);
+    await storageController.rekeyVisitData(changedHosts);
+  } catch (error) {
+    console.error('Failed to apply URL normalization rules:', error);
+  }
+});
+
+// Stale tab rules are edited from the options page
+chrome.storage.onChanged.addListener(async (changes, areaName) => {
+  if (areaName !== 'local' || !changes[StorageKeys.STALE_TAB_RULES]) {
+    return;
+  }
+  try {
+    await (await StaleTabRules.getInstance()).loadFromStorage();
+  } catch (error) {
+    console.error('Failed to reload stale tab rules:', error);
+  }
+});
+
+// Tab counts change in bursts when windows open or close, so update the
+// badge once they settle
+const TAB_COUNT_UPDATE_DELAY = 300;
+const TAB_LIMIT_NOTIFICATION = 'tab-limit';
+let tabCountTimer: ReturnType<typeof setTimeout> | undefined;
+
+function scheduleTabCountUpdate(): void {
+  clearTimeout(tabCountTimer);
+  tabCountTimer = setTimeout(async () => {
+    try {
+      await updateTabCount();
+    } catch (error) {
+      console.error('Failed to update tab count:', error);
+    }
+  }, TAB_COUNT_UPDATE_DELAY);
+}
+
+/**
+ * Shows the open tab count on the badge, highlighted above the limits, and
+ * offers to free up tabs when a limit is first exceeded. Whether a limit was
+ * exceeded is kept in session storage, as the service worker is restarted
+ * while tabs stay open.
+ */
+async function updateTabCount(): Promise<void> {
+  const settings = (await SettingsManager.getInstance()).getAll();
+  const counts = countTabs(await chrome.tabs.query({ windowType: 'normal' }));
+  const overLimit = isOverTabLimit(counts, settings);
+
+  await chrome.action.setBadgeText({
+    text: settings.showTabCountBadge ? String(counts.total) : '',
+  });
+  await chrome.action.setBadgeBackgroundColor({
+    color: overLimit ? TAB_LIMIT_BADGE_COLOR : TAB_COUNT_BADGE_COLOR,
+  });
+
+  const wasOverTabLimit = Boolean(
+    (await chrome.storage.session.get(StorageKeys.TAB_LIMIT_EXCEEDED))[
+      StorageKeys.TAB_LIMIT_EXCEEDED
+    ]
+  );
+  if (overLimit && !wasOverTabLimit && settings.tabLimitPrompt) {
+    await chrome.notifications.create(TAB_LIMIT_NOTIFICATION, {
+      type: 'basic',
+      iconUrl: 'assets/tidy-tab-128.png',
+      title: 'Too many tabs open',
+      message: `${counts.total} tabs are open, more than your limit.`,
+      buttons: [{ title: 'Remove duplicates' }, { title: 'Close oldest tabs' }],
+    });
+  }
+  if (overLimit !== wasOverTabLimit) {
+    await chrome.storage.session.set({
+      [StorageKeys.TAB_LIMIT_EXCEEDED]: overLimit,
+    });
+  }
+}
+
+scheduleTabCountUpdate();
+chrome.tabs.onCreated.addListener(scheduleTabCountUpdate);
+chrome.tabs.onRemoved.addListener(scheduleTabCountUpdate);
+chrome.tabs.onAttached.addListener(scheduleTabCountUpdate);
+chrome.tabs.onDetached.addListener(scheduleTabCountUpdate);
+
+SettingsManager.onChange(scheduleTabCountUpdate);
+
+chrome.notifications.onButtonClicked.addListener(
+  async (notificationId, buttonIndex) => {
+    if (notificationId !== TAB_LIMIT_NOTIFICATION) {
+      return;
+    }
+    try {
+      await chrome.notifications.clear(TAB_LIMIT_NOTIFICATION);
+      const settings = (await SettingsManager.getInstance()).getAll();
+      if (buttonIndex === 0) {
+        const tabs = await queryDedupeTabs(settings.dedupeAcrossWindows);
+        await applyTabPlan(
+          planDedupe(tabs, getDedupeRules(settings), settings.dedupeKeepPolicy)
+        );
+      } else {
+        const tabIds = findTabsOverLimit(
+          await chrome.tabs.query({ windowType: 'normal' }),
+          settings
+        ).flatMap(tab => (tab.id === undefined ? [] : [tab.id]));
+        if (tabIds.length > 0) {
+          await new TabUndo().saveSnapshot('Close oldest');
+          await chrome.tabs.remove(tabIds);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to free up tabs:', error);
+    }
+  }
+);
+
 // Simple cleanup function - only removes entries older than debounce time
-function cleanupOldVisits(): void {
+function cleanupOldVisits(visitDebounceTime: number): void {
   const now = Date.now();
-  const cutoffTime = now - VISIT_DEBOUNCE_TIME * 2; // Keep entries for twice the debounce time
+  const cutoffTime = now - visitDebounceTime * 2; // Keep entries for twice the debounce time
 
   for (const [key, timestamp] of recentVisits.entries()) {
     if (timestamp < cutoffTime) {
@@ -0,0 +1,251 @@
+import { errorManager } from '../feature/error-manager';
+import { UrlExclusion } from '../feature/url-exclusion';
+import { UrlExclusionPanel } from '../ui/url-exclusion-panel';
+import { throwIfNull } from '../error_handling';
+import { SettingsManager } from '../feature/settings';
+import { SettingsPanel } from '../ui/settings-panel';
+import { TabGroupRules } from '../feature/tab-group-rules';
+import { TabGroupRulesPanel } from '../ui/tab-group-rules-panel';
+import { StaleTabRules } from '../feature/stale-tabs';
+import { StaleTabRulesPanel } from '../ui/stale-tab-rules-panel';
+import { UrlNormalization } from '../feature/url-normalization';
+import { QueryParamRulesPanel } from '../ui/query-param-rules-panel';
+
+class Options {
+  async initialize(): Promise<void> {
+    errorManager.initializeErrorDisplay();
+
+    try {
+      const urlExclusion = await UrlExclusion.getInstance();
+      new UrlExclusionPanel(
+        document.getElementById('url-exclusion-panel') ??
+          throwIfNull('url-exclusion-panel cannot be null'),
+        urlExclusion,
+        errorManager
+      );
+    } catch (error) {
+      const errorMsg = `Failed to initialize URL exclusion settings: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      errorManager.addError(errorMsg);
+      errorManager.displayErrors();
+    }
+
+    try {
+      new QueryParamRulesPanel(
+        document.getElementById('query-param-rules-panel') ??
+          throwIfNull('query-param-rules-panel cannot be null'),
+        await UrlNormalization.getInstance(),
+        errorManager
+      );
+    } catch (error) {
+      const errorMsg = `Failed to initialize query parameter rules: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      errorManager.addError(errorMsg);
+      errorManager.displayErrors();
+    }
+
+    try {
+      new TabGroupRulesPanel(
+        document.getElementById('tab-group-rules-panel') ??
+          throwIfNull('tab-group-rules-panel cannot be null'),
+        await TabGroupRules.getInstance(),
+        errorManager
+      );
+    } catch (error) {
+      const errorMsg = `Failed to initialize tab group rules: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      errorManager.addError(errorMsg);
+      errorManager.displayErrors();
+    }
+
+    try {
+      new StaleTabRulesPanel(
+        document.getElementById('stale-tab-rules-panel') ??
+          throwIfNull('stale-tab-rules-panel cannot be null'),
+        await StaleTabRules.getInstance(),
+        errorManager
+      );
+    } catch (error) {
+      const errorMsg = `Failed to initialize stale tab rules: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      errorManager.addError(errorMsg);
+      errorManager.displayErrors();
+    }
+
+    try {
+      const settingsManager = await SettingsManager.getInstance();
+      new SettingsPanel(
+        document.getElementById('privacy-settings-panel') ??
+          throwIfNull('privacy-settings-panel cannot be null'),
+        settingsManager,
+        [
+          {
+            key: 'keepBookmarksOnHistoryRemoval',
+            label: 'Keep bookmarks when their history is deleted',
+          },
+        ],
+        errorManager
+      );
+      new SettingsPanel(
+        document.getElementById('ranking-settings-panel') ??
+          throwIfNull('ranking-settings-panel cannot be null'),
+        settingsManager,
+        [
+          { key: 'searchFuseWeight', label: 'Text match weight' },
+          { key: 'searchFrecencyWeight', label: 'Visit frecency weight' },
+          {
+            key: 'frecencyHalfLifeDays',
+            label: 'Days until a visit counts half as much',
+          },
+          {
+            key: 'searchMaxClickBoost',
+            label: 'Boost for results picked before for the same query',
+          },
+        ],
+        errorManager
+      );
+      new SettingsPanel(
+        document.getElementById('history-settings-panel') ??
+          throwIfNull('history-settings-panel cannot be null'),
+        settingsManager,
+        [
+          { key: 'historyMaxAgeDays', label: 'Days of history to import' },
+          {
+            key: 'visitDebounceSeconds',
+            label: 'Seconds in which reloads count as one visit',
+          },
+          { key: 'searchMaxResults', label: 'Results ranked per search' },
+          { key: 'searchResultsShown', label: 'Results shown per search' },
+          {
+            key: 'homeSectionMaxEntries',
+            label: 'Pages in each home view section',
+          },
+        ],
+        errorManager
+      );
+      new SettingsPanel(
+        document.getElementById('tab-operation-settings-panel') ??
+          throwIfNull('tab-operation-settings-panel cannot be null'),
+        settingsManager,
+        [
+          {
+            key: 'previewTabOperations',
+            label: 'Preview Sort, Dedupe and Merge before applying',
+          },
+        ],
+        errorManager
+      );
+      new SettingsPanel(
+        document.getElementById('tab-sort-settings-panel') ??
+          throwIfNull('tab-sort-settings-panel cannot be null'),
+        settingsManager,
+        [
+          {
+            key: 'tabSortStrategy',
+            label: 'Sort tabs by',
+            choices: [
+              { value: 'domain', label: 'Domain' },
+              { value: 'title', label: 'Title' },
+              { value: 'lastAccessed', label: 'Last accessed' },
+              { value: 'visitCount', label: 'Visit count' },
+            ],
+          },
+          { key: 'tabSortKeepPinned', label: 'Keep pinned tabs in place' },
+          { key: 'tabSortAllWindows', label: 'Sort tabs in all windows' },
+        ],
+        errorManager
+      );
+      new SettingsPanel(
+        document.getElementById('dedupe-settings-panel') ??
+          throwIfNull('dedupe-settings-panel cannot be null'),
+        settingsManager,
+        [
+          {
+            key: 'dedupeStripTrackingParams',
+            label: 'Ignore tracking parameters such as utm_source',
+          },
+          { key: 'dedupeIgnoreFragment', label: 'Ignore #fragments' },
+          {
+            key: 'dedupeIgnoreTrailingSlash',
+            label: 'Ignore trailing slashes',
+          },
+          {
+            key: 'dedupeIgnoreQuery',
+            label: 'Ignore the whole query string, like search does',
+          },
+          {
+            key: 'dedupeKeepPolicy',
+            label: 'Keep the duplicate that is',
+            choices: [
+              { value: 'first', label: 'First in tab order' },
+              { value: 'pinned', label: 'Pinned' },
+              { value: 'active', label: 'Active' },
+              { value: 'lastAccessed', label: 'Most recently used' },
+              { value: 'audible', label: 'Playing audio' },
+            ],
+          },
+          {
+            key: 'dedupeAcrossWindows',
+            label:
+              'Remove duplicates across all normal windows of this profile',
+          },
+        ],
+        errorManager
+      );
+      new SettingsPanel(
+        document.getElementById('tab-group-settings-panel') ??
+          throwIfNull('tab-group-settings-panel cannot be null'),
+        settingsManager,
+        [
+          {
+            key: 'tabGroupByDomain',
+            label: 'Group tabs no rule matches by domain',
+          },
+        ],
+        errorManager
+      );
+      new SettingsPanel(
+        document.getElementById('stale-tab-settings-panel') ??
+          throwIfNull('stale-tab-settings-panel cannot be null'),
+        settingsManager,
+        [
+          {
+            key: 'staleTabAction',
+            label: 'Stale tabs are',
+            choices: [
+              { value: 'off', label: 'Left open' },
+              { value: 'discard', label: 'Discarded' },
+              { value: 'close', label: 'Closed' },
+            ],
+          },
+          { key: 'staleTabHours', label: 'Hours until a tab is stale' },
+        ],
+        errorManager
+      );
+      new SettingsPanel(
+        document.getElementById('tab-limit-settings-panel') ??
+          throwIfNull('tab-limit-settings-panel cannot be null'),
+        settingsManager,
+        [
+          { key: 'showTabCountBadge', label: 'Show the tab count badge' },
+          { key: 'tabLimit', label: 'Limit for all windows' },
+          { key: 'windowTabLimit', label: 'Limit for a single window' },
+          {
+            key: 'tabLimitPrompt',
+            label: 'Offer to remove duplicates or close the oldest tabs',
+          },
+        ],
+        errorManager
+      );
+    } catch (error) {
+      const errorMsg = `Failed to initialize settings: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      errorManager.addError(errorMsg);
+      errorManager.displayErrors();
+    }
+  }
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+  new Options().initialize();
+});
@@ -1,6 +1,9 @@
 import { Searching } from '../searching/searching';
 import { TabManagement } from '../tab_management';
 import { errorManager } from '../feature/error-manager';
+import { throwIfNull } from '../error_handling';
+import { SessionsPanel } from '../ui/sessions-panel';
+import { StaleTabsPanel } from '../ui/stale-tabs-panel';
 
 class Popup {
   constructor() {
@@ -13,6 +16,8 @@ class Popup {
 
       // Initialize components with error handling
       this.initializeComponents();
+
+      this.setupOptionsButton();
     } catch (error) {
       const errorMsg = `Failed to initialize popup: ${error instanceof Error ? error.message : 'Unknown error'}`;
       console.error(errorMsg);
@@ -51,6 +56,32 @@ class Popup {
       errorManager.addError(errorMsg);
     }
 
+    try {
+      new SessionsPanel(
+        document.getElementById('sessions-panel') ??
+          throwIfNull('sessions-panel cannot be null'),
+        document.getElementById('toggleSessions') ??
+          throwIfNull('toggleSessions cannot be null'),
+        errorManager
+      );
+    } catch (error) {
+      const errorMsg = `Failed to initialize sessions: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      errorManager.addError(errorMsg);
+    }
+
+    try {
+      new StaleTabsPanel(
+        document.getElementById('stale-tabs-panel') ??
+          throwIfNull('stale-tabs-panel cannot be null'),
+        errorManager
+      );
+    } catch (error) {
+      const errorMsg = `Failed to initialize stale tabs: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      console.error(errorMsg);
+      errorManager.addError(errorMsg);
+    }
+
     try {
       new Searching(errorManager);
     } catch (error) {
@@ -63,6 +94,24 @@ class Popup {
     }
   }
 
+  private setupOptionsButton(): void {
+    const optionsButton =
+      document.getElementById('openOptions') ??
+      throwIfNull('openOptions cannot be null');
+
+    optionsButton.addEventListener('click', async () => {
+      try {
+        await chrome.runtime.openOptionsPage();
+        window.close();
+      } catch (error) {
+        errorManager.addError(
+          `Failed to open options page: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+        errorManager.displayErrors();
+      }
+    });
+  }
+
   private showCriticalError(message: string): void {
     try {
       const body = document.body;
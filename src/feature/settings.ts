@@ -0,0 +1,333 @@
+import {
+  HOME_SECTION_MAX_ENTRIES,
+  MAX_BROWSER_HISTORY_AGE_IN_DAYS,
+  SEARCH_FRECENCY_HALF_LIFE_DAYS,
+  SEARCH_FRECENCY_WEIGHT,
+  SEARCH_FUSE_RESULT_WEIGHT,
+  SEARCH_MAX_CLICK_BOOST,
+  SEARCH_MAX_RESULT_TO_DISPLAY,
+  SEARCH_MAX_RESULTS,
+  StorageKeys,
+  VISIT_DEBOUNCE_SECONDS,
+} from '../utils/constants';
+import { DedupeKeepPolicy, StaleTabAction, TabSortStrategy } from '../types';
+
+export interface ISettings {
+  // Keep bookmark entries in the index when their history is deleted
+  keepBookmarksOnHistoryRemoval: boolean;
+  // Days of browser history imported on install
+  historyMaxAgeDays: number;
+  // Reloads of the same page in a tab within this time count as one visit
+  visitDebounceSeconds: number;
+  // Ranked results kept, and how many of them are shown
+  searchMaxResults: number;
+  searchResultsShown: number;
+  // Entries in each section of the empty-query home view
+  homeSectionMaxEntries: number;
+  searchFuseWeight: number;
+  searchFrecencyWeight: number;
+  // Days after which a visit counts half as much in ranking
+  frecencyHalfLifeDays: number;
+  // Boost for results picked before for the same query
+  searchMaxClickBoost: number;
+  // How the Sort button orders tabs
+  tabSortStrategy: TabSortStrategy;
+  // Leave pinned tabs in their current order when sorting
+  tabSortKeepPinned: boolean;
+  tabSortAllWindows: boolean;
+  // URL differences ignored when looking for duplicate tabs
+  dedupeStripTrackingParams: boolean;
+  dedupeIgnoreFragment: boolean;
+  dedupeIgnoreTrailingSlash: boolean;
+  dedupeIgnoreQuery: boolean;
+  dedupeKeepPolicy: DedupeKeepPolicy;
+  dedupeAcrossWindows: boolean;
+  // Group tabs no grouping rule matches by their domain
+  tabGroupByDomain: boolean;
+  // List what Sort, Dedupe and Merge would change before applying it
+  previewTabOperations: boolean;
+  // What happens to tabs not used for staleTabHours, per-domain rules aside
+  staleTabAction: StaleTabAction;
+  staleTabHours: number;
+  // Open tab count on the toolbar icon, highlighted above the limits
+  showTabCountBadge: boolean;
+  // Limits for all windows and for any one window, 0 for none
+  tabLimit: number;
+  windowTabLimit: number;
+  // Offer to remove duplicates or close the oldest tabs above a limit
+  tabLimitPrompt: boolean;
+}
+
+export const DEFAULT_SETTINGS: ISettings = {
+  keepBookmarksOnHistoryRemoval: true,
+  historyMaxAgeDays: MAX_BROWSER_HISTORY_AGE_IN_DAYS,
+  visitDebounceSeconds: VISIT_DEBOUNCE_SECONDS,
+  searchMaxResults: SEARCH_MAX_RESULTS,
+  searchResultsShown: SEARCH_MAX_RESULT_TO_DISPLAY,
+  homeSectionMaxEntries: HOME_SECTION_MAX_ENTRIES,
+  searchFuseWeight: SEARCH_FUSE_RESULT_WEIGHT,
+  searchFrecencyWeight: SEARCH_FRECENCY_WEIGHT,
+  frecencyHalfLifeDays: SEARCH_FRECENCY_HALF_LIFE_DAYS,
+  searchMaxClickBoost: SEARCH_MAX_CLICK_BOOST,
+  tabSortStrategy: 'domain',
+  tabSortKeepPinned: true,
+  tabSortAllWindows: false,
+  dedupeStripTrackingParams: true,
+  dedupeIgnoreFragment: true,
+  dedupeIgnoreTrailingSlash: true,
+  dedupeIgnoreQuery: false,
+  dedupeKeepPolicy: 'first',
+  dedupeAcrossWindows: false,
+  tabGroupByDomain: true,
+  previewTabOperations: true,
+  staleTabAction: 'off',
+  staleTabHours: 12,
+  showTabCountBadge: true,
+  tabLimit: 50,
+  windowTabLimit: 0,
+  tabLimitPrompt: false,
+};
+
+// Values a setting accepts, checked before it is saved
+type SettingRule =
+  | { type: 'boolean' }
+  | { type: 'number'; min: number; max?: number; integer?: boolean }
+  | { type: 'choice'; values: readonly string[] };
+
+const BOOLEAN: SettingRule = { type: 'boolean' };
+const POSITIVE_NUMBER: SettingRule = { type: 'number', min: 0 };
+const LIMIT: SettingRule = { type: 'number', min: 0, integer: true };
+
+export const SETTING_RULES: Record<keyof ISettings, SettingRule> = {
+  keepBookmarksOnHistoryRemoval: BOOLEAN,
+  historyMaxAgeDays: { type: 'number', min: 1, max: 3650, integer: true },
+  visitDebounceSeconds: POSITIVE_NUMBER,
+  searchMaxResults: { type: 'number', min: 1, max: 200, integer: true },
+  searchResultsShown: { type: 'number', min: 1, max: 50, integer: true },
+  homeSectionMaxEntries: { type: 'number', min: 0, max: 50, integer: true },
+  searchFuseWeight: POSITIVE_NUMBER,
+  searchFrecencyWeight: POSITIVE_NUMBER,
+  frecencyHalfLifeDays: POSITIVE_NUMBER,
+  searchMaxClickBoost: POSITIVE_NUMBER,
+  tabSortStrategy: {
+    type: 'choice',
+    values: ['domain', 'title', 'lastAccessed', 'visitCount'],
+  },
+  tabSortKeepPinned: BOOLEAN,
+  tabSortAllWindows: BOOLEAN,
+  dedupeStripTrackingParams: BOOLEAN,
+  dedupeIgnoreFragment: BOOLEAN,
+  dedupeIgnoreTrailingSlash: BOOLEAN,
+  dedupeIgnoreQuery: BOOLEAN,
+  dedupeKeepPolicy: {
+    type: 'choice',
+    values: ['first', 'pinned', 'active', 'lastAccessed', 'audible'],
+  },
+  dedupeAcrossWindows: BOOLEAN,
+  tabGroupByDomain: BOOLEAN,
+  previewTabOperations: BOOLEAN,
+  staleTabAction: { type: 'choice', values: ['off', 'discard', 'close'] },
+  staleTabHours: { type: 'number', min: 1 },
+  showTabCountBadge: BOOLEAN,
+  tabLimit: LIMIT,
+  windowTabLimit: LIMIT,
+  tabLimitPrompt: BOOLEAN,
+};
+
+/**
+ * Checks a value against the rule of its setting
+ * @throws if the value has the wrong type or is out of range
+ */
+export const validateSetting = (key: keyof ISettings, value: unknown): void => {
+  const rule = SETTING_RULES[key];
+  switch (rule.type) {
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new Error(`${key} must be true or false`);
+      }
+      return;
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`${key} must be a number`);
+      }
+      if (rule.integer && !Number.isInteger(value)) {
+        throw new Error(`${key} must be a whole number`);
+      }
+      if (value < rule.min || (rule.max !== undefined && value > rule.max)) {
+        throw new Error(
+          `${key} must be between ${rule.min} and ${rule.max ?? 'any number'}`
+        );
+      }
+      return;
+    case 'choice':
+      if (typeof value !== 'string' || !rule.values.includes(value)) {
+        throw new Error(`${key} must be one of ${rule.values.join(', ')}`);
+      }
+      return;
+  }
+};
+
+export const SETTINGS_VERSION = 2;
+
+export interface IStoredSettings {
+  version: number;
+  settings: Partial<ISettings>;
+}
+
+/**
+ * Upgrades stored settings to the current format. Version 1 was a flat
+ * settings object in local storage. Unknown keys and invalid values are
+ * dropped in favor of the defaults. Settings synced from a newer version are
+ * read as far as they are understood, but not rewritten.
+ */
+export const migrateSettings = (
+  stored: unknown
+): { settings: ISettings; migrated: boolean } => {
+  if (!stored || typeof stored !== 'object') {
+    return { settings: { ...DEFAULT_SETTINGS }, migrated: false };
+  }
+  const { version, settings: storedSettings } = stored as IStoredSettings;
+  const isVersioned =
+    typeof version === 'number' &&
+    typeof storedSettings === 'object' &&
+    storedSettings !== null;
+  const values: Record<string, unknown> = isVersioned
+    ? storedSettings
+    : (stored as Record<string, unknown>);
+  const canRewrite = !isVersioned || version <= SETTINGS_VERSION;
+
+  const settings: ISettings = { ...DEFAULT_SETTINGS };
+  let migrated = !isVersioned || version !== SETTINGS_VERSION;
+  for (const [key, value] of Object.entries(values)) {
+    if (!(key in DEFAULT_SETTINGS)) {
+      console.warn(`Dropping unknown setting ${key}`);
+      migrated = true;
+      continue;
+    }
+    const settingKey = key as keyof ISettings;
+    try {
+      validateSetting(settingKey, value);
+      Object.assign(settings, { [settingKey]: value });
+    } catch (error) {
+      console.warn('Dropping invalid setting:', error);
+      migrated = true;
+    }
+  }
+  return { settings, migrated: migrated && canRewrite };
+};
+
+const getChangedKeys = (
+  oldValue: IStoredSettings | undefined,
+  newValue: IStoredSettings | undefined
+): (keyof ISettings)[] =>
+  (Object.keys(DEFAULT_SETTINGS) as (keyof ISettings)[]).filter(
+    key => oldValue?.settings?.[key] !== newValue?.settings?.[key]
+  );
+
+export type SettingsListener = (
+  changedKeys: (keyof ISettings)[],
+  settings: ISettings
+) => void;
+
+export class SettingsManager {
+  private static instance: SettingsManager;
+  private settings: ISettings = { ...DEFAULT_SETTINGS };
+
+  private constructor() {}
+
+  static async getInstance(): Promise<SettingsManager> {
+    if (!SettingsManager.instance) {
+      SettingsManager.instance = new SettingsManager();
+      await SettingsManager.instance.loadFromStorage();
+      // Settings are edited on the options page, keep other contexts current
+      chrome.storage.onChanged.addListener((changes, areaName) => {
+        if (areaName === 'sync' && changes[StorageKeys.SETTINGS]) {
+          SettingsManager.instance.loadFromStorage();
+        }
+      });
+    }
+    return SettingsManager.instance;
+  }
+
+  /**
+   * Calls the listener once settings were changed in any context, including
+   * on other synced devices. The listener is registered right away, so
+   * calling this at the top of the background script wakes it up for changes.
+   */
+  static onChange(listener: SettingsListener): void {
+    chrome.storage.onChanged.addListener(async (changes, areaName) => {
+      const change = changes[StorageKeys.SETTINGS];
+      if (areaName !== 'sync' || !change) {
+        return;
+      }
+      try {
+        const settingsManager = await SettingsManager.getInstance();
+        await settingsManager.loadFromStorage();
+        const changedKeys = getChangedKeys(change.oldValue, change.newValue);
+        if (changedKeys.length > 0) {
+          listener(changedKeys, settingsManager.getAll());
+        }
+      } catch (error) {
+        console.error('Failed to handle settings change:', error);
+      }
+    });
+  }
+
+  async loadFromStorage(): Promise<void> {
+    try {
+      let stored = (await chrome.storage.sync.get(StorageKeys.SETTINGS))[
+        StorageKeys.SETTINGS
+      ];
+      const isLegacy = stored === undefined;
+      if (isLegacy) {
+        stored = (await chrome.storage.local.get(StorageKeys.SETTINGS))[
+          StorageKeys.SETTINGS
+        ];
+      }
+      const { settings, migrated } = migrateSettings(stored);
+      this.settings = settings;
+      if (migrated) {
+        await this.saveToStorage();
+        console.log('Migrated settings to version', SETTINGS_VERSION);
+      }
+      if (isLegacy && stored !== undefined) {
+        await chrome.storage.local.remove(StorageKeys.SETTINGS);
+      }
+    } catch (error) {
+      console.error('Failed to load settings, using defaults:', error);
+      this.settings = { ...DEFAULT_SETTINGS };
+    }
+  }
+
+  get<K extends keyof ISettings>(key: K): ISettings[K] {
+    return this.settings[key];
+  }
+
+  getAll(): ISettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Saves the changed settings
+   * @throws if any key is unknown or any value is invalid, in which case
+   * nothing is saved
+   */
+  async update(changes: Partial<ISettings>): Promise<void> {
+    for (const [key, value] of Object.entries(changes)) {
+      if (!Object.prototype.hasOwnProperty.call(SETTING_RULES, key)) {
+        throw new Error(`Unknown setting ${key}`);
+      }
+      validateSetting(key as keyof ISettings, value);
+    }
+    this.settings = { ...this.settings, ...changes };
+    await this.saveToStorage();
+  }
+
+  private async saveToStorage(): Promise<void> {
+    const stored: IStoredSettings = {
+      version: SETTINGS_VERSION,
+      settings: this.settings,
+    };
+    await chrome.storage.sync.set({ [StorageKeys.SETTINGS]: stored });
+  }
+}
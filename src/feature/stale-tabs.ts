@@ -0,0 +1,212 @@
+import {
+  HOUR_IN_MS,
+  MAX_AUTO_CLOSED_TABS,
+  StorageKeys,
+} from '../utils/constants';
+import { IAutoClosedTab, IStaleTabRule, StaleTabAction } from '../types';
+import { SettingsManager } from './settings';
+
+export class StaleTabRules {
+  private static instance: StaleTabRules;
+  private rules: IStaleTabRule[] = [];
+
+  private constructor() {}
+
+  static async getInstance(): Promise<StaleTabRules> {
+    if (!StaleTabRules.instance) {
+      StaleTabRules.instance = new StaleTabRules();
+      await StaleTabRules.instance.loadFromStorage();
+    }
+    return StaleTabRules.instance;
+  }
+
+  async loadFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(
+        StorageKeys.STALE_TAB_RULES
+      );
+      const stored = result[StorageKeys.STALE_TAB_RULES];
+      this.rules = Array.isArray(stored) ? (stored as IStaleTabRule[]) : [];
+    } catch (error) {
+      console.error('Failed to load stale tab rules:', error);
+    }
+  }
+
+  getRules(): IStaleTabRule[] {
+    return this.rules.map(rule => ({ ...rule }));
+  }
+
+  /**
+   * Adds or replaces the rule of a domain
+   * @param hours - hours before tabs count as stale, null to never touch them
+   * @throws if the domain is empty or the hours are not positive
+   */
+  async setRule(rawDomain: string, hours: number | null): Promise<void> {
+    const domain = rawDomain
+      .trim()
+      .toLowerCase()
+      .replace(/^[a-z]+:\/\//, '')
+      .replace(/\/.*$/, '')
+      .replace(/^www\./, '');
+    if (domain.length === 0) {
+      throw new Error('Domain cannot be empty');
+    }
+    if (hours !== null && !(hours > 0)) {
+      throw new Error('Hours must be a positive number');
+    }
+    this.rules = this.rules.filter(rule => rule.domain !== domain);
+    this.rules.push({ id: crypto.randomUUID(), domain, hours });
+    await this.saveToStorage();
+  }
+
+  async removeRule(id: string): Promise<boolean> {
+    const count = this.rules.length;
+    this.rules = this.rules.filter(rule => rule.id !== id);
+    if (this.rules.length === count) {
+      return false;
+    }
+    await this.saveToStorage();
+    return true;
+  }
+
+  /**
+   * Hours after which a tab of the hostname is stale. The most specific
+   * matching domain rule wins over the default.
+   */
+  getThresholdHours(hostname: string, defaultHours: number): number | null {
+    const host = hostname.toLowerCase().replace(/^www\./, '');
+    const rule = this.rules
+      .filter(r => host === r.domain || host.endsWith(`.${r.domain}`))
+      .sort((a, b) => b.domain.length - a.domain.length)[0];
+    return rule ? rule.hours : defaultHours;
+  }
+
+  private async saveToStorage(): Promise<void> {
+    await chrome.storage.local.set({
+      [StorageKeys.STALE_TAB_RULES]: this.rules,
+    });
+  }
+}
+
+/**
+ * Finds tabs not accessed within their threshold. Pinned, audible, active
+ * and incognito tabs are never stale, and neither are pages other than
+ * http(s). Discarding skips tabs that are already discarded.
+ */
+export const findStaleTabs = (
+  tabs: chrome.tabs.Tab[],
+  action: StaleTabAction,
+  getThresholdHours: (hostname: string) => number | null,
+  now: number = Date.now()
+): chrome.tabs.Tab[] => {
+  if (action === 'off') {
+    return [];
+  }
+  return tabs.filter(tab => {
+    if (
+      tab.id === undefined ||
+      tab.pinned ||
+      tab.audible ||
+      tab.active ||
+      tab.incognito ||
+      tab.lastAccessed === undefined ||
+      (action === 'discard' && tab.discarded)
+    ) {
+      return false;
+    }
+    let url: URL;
+    try {
+      url = new URL(tab.url || '');
+    } catch {
+      return false;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return false;
+    }
+    const hours = getThresholdHours(url.hostname);
+    return hours !== null && now - tab.lastAccessed > hours * HOUR_IN_MS;
+  });
+};
+
+/**
+ * Tabs the stale tab policy would act on now, with the configured action
+ */
+export const getStaleTabCandidates = async (): Promise<{
+  action: StaleTabAction;
+  tabs: chrome.tabs.Tab[];
+}> => {
+  const settings = (await SettingsManager.getInstance()).getAll();
+  const rules = await StaleTabRules.getInstance();
+  const tabs = findStaleTabs(
+    await chrome.tabs.query({}),
+    settings.staleTabAction,
+    hostname => rules.getThresholdHours(hostname, settings.staleTabHours)
+  );
+  return { action: settings.staleTabAction, tabs };
+};
+
+/**
+ * Discards or closes the stale tabs. Closed tabs are recorded first so they
+ * can be reopened from the popup.
+ * @returns the number of tabs acted on
+ */
+export const applyStaleTabPolicy = async (): Promise<number> => {
+  const { action, tabs } = await getStaleTabCandidates();
+  const tabIds = tabs.flatMap(tab => (tab.id === undefined ? [] : [tab.id]));
+  if (tabIds.length === 0) {
+    return 0;
+  }
+  if (action === 'close') {
+    await recordAutoClosedTabs(tabs);
+    await chrome.tabs.remove(tabIds);
+  } else {
+    for (const tabId of tabIds) {
+      try {
+        await chrome.tabs.discard(tabId);
+      } catch (error) {
+        // The tab may have been closed or activated since it was queried
+        console.warn(`Failed to discard tab ${tabId}:`, error);
+      }
+    }
+  }
+  return tabIds.length;
+};
+
+/**
+ * Tabs closed by the stale tab policy, newest first, so they can be reopened
+ */
+export const getAutoClosedTabs = async (): Promise<IAutoClosedTab[]> => {
+  const result = await chrome.storage.local.get(StorageKeys.AUTO_CLOSED_TABS);
+  const stored = result[StorageKeys.AUTO_CLOSED_TABS];
+  return Array.isArray(stored) ? (stored as IAutoClosedTab[]) : [];
+};
+
+export const recordAutoClosedTabs = async (
+  tabs: chrome.tabs.Tab[]
+): Promise<void> => {
+  const now = Date.now();
+  const closedTabs: IAutoClosedTab[] = tabs.map(tab => ({
+    url: tab.url || '',
+    title: tab.title || tab.url || '',
+    closedAt: now,
+  }));
+  await chrome.storage.local.set({
+    [StorageKeys.AUTO_CLOSED_TABS]: [
+      ...closedTabs,
+      ...(await getAutoClosedTabs()),
+    ].slice(0, MAX_AUTO_CLOSED_TABS),
+  });
+};
+
+/**
+ * Reopens an auto-closed tab and drops it from the list
+ */
+export const reopenAutoClosedTab = async (
+  closedTab: IAutoClosedTab
+): Promise<void> => {
+  await chrome.tabs.create({ url: closedTab.url });
+  const remaining = (await getAutoClosedTabs()).filter(
+    tab => tab.url !== closedTab.url || tab.closedAt !== closedTab.closedAt
+  );
+  await chrome.storage.local.set({ [StorageKeys.AUTO_CLOSED_TABS]: remaining });
+};
@@ -0,0 +1,139 @@
+import { DedupeKeepPolicy } from '../types';
+import { normalizeUrl, validateUrl } from '../searching/utils';
+import { TRACKING_PARAMS, TRACKING_PARAM_PREFIXES } from '../utils/constants';
+import { ISettings } from './settings';
+
+export interface IDedupeRules {
+  stripTrackingParams: boolean;
+  ignoreFragment: boolean;
+  ignoreTrailingSlash: boolean;
+  // Compare like the search index does, by origin and path only
+  useNormalizeUrl: boolean;
+}
+
+export const getDedupeRules = (settings: ISettings): IDedupeRules => ({
+  stripTrackingParams: settings.dedupeStripTrackingParams,
+  ignoreFragment: settings.dedupeIgnoreFragment,
+  ignoreTrailingSlash: settings.dedupeIgnoreTrailingSlash,
+  useNormalizeUrl: settings.dedupeIgnoreQuery,
+});
+
+/**
+ * Tabs to deduplicate: those of the current window, or of every normal window
+ * of the current profile, so incognito and normal tabs never close each other
+ */
+export const queryDedupeTabs = async (
+  acrossWindows: boolean
+): Promise<chrome.tabs.Tab[]> => {
+  if (!acrossWindows) {
+    return chrome.tabs.query({ currentWindow: true });
+  }
+  const { incognito } = await chrome.windows.getCurrent();
+  const tabs = await chrome.tabs.query({ windowType: 'normal' });
+  return tabs.filter(tab => tab.incognito === incognito);
+};
+
+export const isTrackingParam = (name: string): boolean => {
+  const lowerName = name.toLowerCase();
+  return (
+    TRACKING_PARAMS.includes(lowerName) ||
+    TRACKING_PARAM_PREFIXES.some(prefix => lowerName.startsWith(prefix))
+  );
+};
+
+/**
+ * Builds the key under which tabs count as duplicates. URLs that cannot be
+ * parsed are compared as they are.
+ */
+export const getDuplicateKey = (
+  rawUrl: string,
+  rules: IDedupeRules
+): string => {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    return rawUrl;
+  }
+
+  if (rules.stripTrackingParams) {
+    const trackingParams: string[] = [];
+    url.searchParams.forEach((_, name) => {
+      if (isTrackingParam(name)) {
+        trackingParams.push(name);
+      }
+    });
+    trackingParams.forEach(name => url.searchParams.delete(name));
+  }
+  if (rules.ignoreFragment) {
+    url.hash = '';
+  }
+  if (rules.ignoreTrailingSlash) {
+    url.pathname = url.pathname.replace(/\/+$/, '');
+  }
+
+  return rules.useNormalizeUrl && validateUrl(url.href)
+    ? normalizeUrl(url)
+    : url.href;
+};
+
+/**
+ * Picks the tab to keep from tabs with the same URL, given in tab order.
+ * Falls back to the first tab when no tab matches the policy.
+ */
+export const chooseTabToKeep = (
+  tabs: chrome.tabs.Tab[],
+  policy: DedupeKeepPolicy
+): chrome.tabs.Tab | undefined => {
+  switch (policy) {
+    case 'pinned':
+      return tabs.find(tab => tab.pinned) ?? tabs[0];
+    case 'active':
+      return tabs.find(tab => tab.active) ?? tabs[0];
+    case 'audible':
+      return tabs.find(tab => tab.audible) ?? tabs[0];
+    case 'lastAccessed':
+      return tabs.reduce<chrome.tabs.Tab | undefined>(
+        (latest, tab) =>
+          !latest || (tab.lastAccessed ?? 0) > (latest.lastAccessed ?? 0)
+            ? tab
+            : latest,
+        undefined
+      );
+    default:
+      return tabs[0];
+  }
+};
+
+/**
+ * Groups tabs with the same URL. Every group lists the tab to keep and the
+ * duplicates to close; URLs open only once are left out.
+ */
+export const findDuplicateGroups = (
+  tabs: chrome.tabs.Tab[],
+  rules: IDedupeRules,
+  policy: DedupeKeepPolicy
+): { keep: chrome.tabs.Tab; duplicates: chrome.tabs.Tab[] }[] => {
+  const tabsByKey = new Map<string, chrome.tabs.Tab[]>();
+  for (const tab of tabs) {
+    if (!tab.url || tab.id === undefined) {
+      continue;
+    }
+    const key = getDuplicateKey(tab.url, rules);
+    const sameUrlTabs = tabsByKey.get(key) ?? [];
+    sameUrlTabs.push(tab);
+    tabsByKey.set(key, sameUrlTabs);
+  }
+
+  const groups: { keep: chrome.tabs.Tab; duplicates: chrome.tabs.Tab[] }[] = [];
+  for (const sameUrlTabs of tabsByKey.values()) {
+    const keep = chooseTabToKeep(sameUrlTabs, policy);
+    if (keep && sameUrlTabs.length > 1) {
+      groups.push({
+        keep,
+        duplicates: sameUrlTabs.filter(tab => tab !== keep),
+      });
+    }
+  }
+  return groups;
+};
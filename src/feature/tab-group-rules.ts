@@ -0,0 +1,138 @@
+import { StorageKeys } from '../utils/constants';
+import { globToRegExp } from '../utils/glob';
+import { ITabGroupRule, ITabGroupTarget } from '../types';
+import { getUrlInfo } from './tab-sort';
+
+export const TAB_GROUP_COLORS: chrome.tabGroups.Color[] = [
+  'grey',
+  'blue',
+  'red',
+  'yellow',
+  'green',
+  'pink',
+  'purple',
+  'cyan',
+  'orange',
+];
+
+/**
+ * Picks the same color for a title every time, so domain groups keep their
+ * color between runs
+ */
+export const colorForTitle = (title: string): chrome.tabGroups.Color => {
+  let hash = 0;
+  for (const char of title) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return TAB_GROUP_COLORS[hash % TAB_GROUP_COLORS.length] ?? 'grey';
+};
+
+export class TabGroupRules {
+  private static instance: TabGroupRules;
+
+  private rules: ITabGroupRule[] = [];
+  private matchers = new Map<string, RegExp>();
+
+  private constructor() {}
+
+  static async getInstance(): Promise<TabGroupRules> {
+    if (!TabGroupRules.instance) {
+      TabGroupRules.instance = new TabGroupRules();
+      await TabGroupRules.instance.loadFromStorage();
+    }
+    return TabGroupRules.instance;
+  }
+
+  async loadFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(
+        StorageKeys.TAB_GROUP_RULES
+      );
+      const stored = result[StorageKeys.TAB_GROUP_RULES];
+      this.rules = Array.isArray(stored) ? (stored as ITabGroupRule[]) : [];
+      this.matchers = new Map(
+        this.rules.map(rule => [rule.id, globToRegExp(rule.pattern)])
+      );
+    } catch (error) {
+      console.error('Failed to load tab group rules:', error);
+    }
+  }
+
+  getRules(): ITabGroupRule[] {
+    return this.rules.map(rule => ({ ...rule }));
+  }
+
+  /**
+   * @throws if the pattern or title is empty
+   */
+  async addRule(
+    pattern: string,
+    title: string,
+    color: chrome.tabGroups.Color
+  ): Promise<ITabGroupRule> {
+    if (pattern.trim().length === 0) {
+      throw new Error('Pattern cannot be empty');
+    }
+    if (title.trim().length === 0) {
+      throw new Error('Group name cannot be empty');
+    }
+    const rule: ITabGroupRule = {
+      id: crypto.randomUUID(),
+      pattern: pattern.trim(),
+      title: title.trim(),
+      color,
+    };
+    this.rules.push(rule);
+    this.matchers.set(rule.id, globToRegExp(rule.pattern));
+    await this.saveToStorage();
+    return rule;
+  }
+
+  async removeRule(id: string): Promise<boolean> {
+    const index = this.rules.findIndex(rule => rule.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.rules.splice(index, 1);
+    this.matchers.delete(id);
+    await this.saveToStorage();
+    return true;
+  }
+
+  /**
+   * Finds the group of a tab URL: the first matching rule, or else its
+   * registrable domain when `byDomain` is set
+   */
+  resolveGroup(rawUrl: string, byDomain: boolean): ITabGroupTarget | null {
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      return null;
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+
+    const hostAndPath = `${url.hostname}${url.pathname}${url.search}`;
+    const rule = this.rules.find(rule => {
+      const matcher = this.matchers.get(rule.id);
+      return matcher?.test(url.hostname) || matcher?.test(hostAndPath);
+    });
+    if (rule) {
+      return { title: rule.title, color: rule.color, fromRule: true };
+    }
+
+    if (!byDomain) {
+      return null;
+    }
+    const { domain } = getUrlInfo(rawUrl);
+    return { title: domain, color: colorForTitle(domain), fromRule: false };
+  }
+
+  private async saveToStorage(): Promise<void> {
+    await chrome.storage.local.set({
+      [StorageKeys.TAB_GROUP_RULES]: this.rules,
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import { ISettings } from './settings';
+
+export type TabLimits = Pick<ISettings, 'tabLimit' | 'windowTabLimit'>;
+
+export interface ITabCounts {
+  total: number;
+  byWindow: Map<number, number>;
+}
+
+export const countTabs = (tabs: chrome.tabs.Tab[]): ITabCounts => {
+  const byWindow = new Map<number, number>();
+  for (const tab of tabs) {
+    byWindow.set(tab.windowId, (byWindow.get(tab.windowId) ?? 0) + 1);
+  }
+  return { total: tabs.length, byWindow };
+};
+
+export const isOverTabLimit = (
+  counts: ITabCounts,
+  limits: TabLimits
+): boolean =>
+  (limits.tabLimit > 0 && counts.total > limits.tabLimit) ||
+  (limits.windowTabLimit > 0 &&
+    Array.from(counts.byWindow.values()).some(
+      count => count > limits.windowTabLimit
+    ));
+
+/**
+ * Picks the least recently used tabs to close to get back within the limits.
+ * Windows above their limit are brought down first, then all windows
+ * together. Pinned, active and audible tabs are never picked.
+ */
+export const findTabsOverLimit = (
+  tabs: chrome.tabs.Tab[],
+  limits: TabLimits
+): chrome.tabs.Tab[] => {
+  const closable = tabs
+    .filter(
+      tab => tab.id !== undefined && !tab.pinned && !tab.active && !tab.audible
+    )
+    .sort((a, b) => (a.lastAccessed ?? 0) - (b.lastAccessed ?? 0));
+  const picked = new Set<chrome.tabs.Tab>();
+
+  if (limits.windowTabLimit > 0) {
+    for (const [windowId, count] of countTabs(tabs).byWindow) {
+      closable
+        .filter(tab => tab.windowId === windowId)
+        .slice(0, Math.max(0, count - limits.windowTabLimit))
+        .forEach(tab => picked.add(tab));
+    }
+  }
+  if (limits.tabLimit > 0) {
+    closable
+      .filter(tab => !picked.has(tab))
+      .slice(0, Math.max(0, tabs.length - picked.size - limits.tabLimit))
+      .forEach(tab => picked.add(tab));
+  }
+  return closable.filter(tab => picked.has(tab));
+};
@@ -0,0 +1,193 @@
+import { IPlannedTab, TabPlan } from '../types';
+import { TAB_GROUP_ID_NONE } from '../utils/constants';
+
+/**
+ * Applies a tab plan. Tabs that cannot be moved or closed, e.g. because they
+ * were closed in the meantime, are skipped.
+ */
+export const executeTabPlan = async (plan: TabPlan): Promise<void> => {
+  switch (plan.kind) {
+    case 'sort':
+      for (const window of plan.windows) {
+        await sortWindow(window.tabs);
+      }
+      console.log(`Successfully sorted tabs in ${plan.windows.length} windows`);
+      return;
+
+    case 'dedupe': {
+      // One at a time, as removing a list fails whole if one tab is gone
+      let removedCount = 0;
+      for (const close of plan.closes) {
+        try {
+          await chrome.tabs.remove(close.tab.tabId);
+          removedCount++;
+        } catch (removeError) {
+          console.error(
+            `Failed to remove tab ${close.tab.tabId}:`,
+            removeError
+          );
+        }
+      }
+      console.log(`Removed ${removedCount} duplicate tabs`);
+      return;
+    }
+
+    case 'merge': {
+      let movedCount = 0;
+      for (const tab of plan.moves) {
+        try {
+          await chrome.tabs.move(tab.tabId, {
+            windowId: plan.targetWindowId,
+            index: -1,
+          });
+          movedCount++;
+        } catch (moveError) {
+          console.error(`Failed to move tab ${tab.tabId}:`, moveError);
+        }
+      }
+      console.log(`Successfully merged ${movedCount} tabs from other windows`);
+      return;
+    }
+
+    case 'group':
+      for (const group of plan.groups) {
+        const [firstTabId, ...otherTabIds] = group.tabs.map(tab => tab.tabId);
+        if (firstTabId === undefined) {
+          continue;
+        }
+        try {
+          const tabIds: [number, ...number[]] = [firstTabId, ...otherTabIds];
+          const groupId = await chrome.tabs.group(
+            group.groupId === TAB_GROUP_ID_NONE
+              ? { tabIds, createProperties: { windowId: group.windowId } }
+              : { tabIds, groupId: group.groupId }
+          );
+          await chrome.tabGroups.update(groupId, {
+            title: group.title,
+            color: group.color,
+          });
+        } catch (groupError) {
+          console.error(`Failed to group tabs as ${group.title}:`, groupError);
+        }
+      }
+      console.log(
+        `Successfully grouped tabs into ${plan.groups.length} groups`
+      );
+      return;
+
+    case 'ungroup': {
+      const [firstTabId, ...otherTabIds] = plan.tabs.map(tab => tab.tabId);
+      if (firstTabId !== undefined) {
+        await chrome.tabs.ungroup([firstTabId, ...otherTabIds]);
+      }
+      console.log(`Ungrouped ${plan.tabs.length} tabs`);
+      return;
+    }
+
+    case 'split':
+      for (const window of plan.windows) {
+        await moveToNewWindow(window.tabs);
+      }
+      console.log(`Split tabs into ${plan.windows.length} new windows`);
+      return;
+  }
+};
+
+/**
+ * Opens a window with the first tab and moves the others behind it. Tabs
+ * leave their group when they change windows, so groups are recreated with
+ * their title and color in the new window.
+ */
+const moveToNewWindow = async (tabs: IPlannedTab[]): Promise<void> => {
+  const [firstTab, ...otherTabs] = tabs;
+  if (!firstTab) {
+    return;
+  }
+  const groups = new Map<number, chrome.tabGroups.TabGroup>();
+  for (const groupId of new Set(tabs.map(tab => tab.groupId))) {
+    if (groupId === TAB_GROUP_ID_NONE) {
+      continue;
+    }
+    try {
+      groups.set(groupId, await chrome.tabGroups.get(groupId));
+    } catch (groupError) {
+      console.error(`Failed to read tab group ${groupId}:`, groupError);
+    }
+  }
+
+  const newWindow = await chrome.windows.create({ tabId: firstTab.tabId });
+  const windowId = newWindow?.id;
+  if (windowId === undefined) {
+    console.error('Failed to create a window for the split tabs');
+    return;
+  }
+  const movedTabs = [firstTab];
+  for (const tab of otherTabs) {
+    try {
+      await chrome.tabs.move(tab.tabId, { windowId, index: -1 });
+      movedTabs.push(tab);
+    } catch (moveError) {
+      console.error(`Failed to move tab ${tab.tabId}:`, moveError);
+    }
+  }
+
+  for (const [groupId, group] of groups) {
+    const [firstTabId, ...otherTabIds] = movedTabs
+      .filter(tab => tab.groupId === groupId)
+      .map(tab => tab.tabId);
+    if (firstTabId === undefined) {
+      continue;
+    }
+    try {
+      const newGroupId = await chrome.tabs.group({
+        tabIds: [firstTabId, ...otherTabIds],
+        createProperties: { windowId },
+      });
+      await chrome.tabGroups.update(newGroupId, {
+        title: group.title ?? '',
+        color: group.color,
+        collapsed: group.collapsed,
+      });
+    } catch (groupError) {
+      console.error(`Failed to regroup tabs of ${group.title}:`, groupError);
+    }
+  }
+};
+
+/**
+ * Moves tabs front to back, each one lands behind the ones already placed.
+ * Grouped tabs are listed next to each other; the group is moved as a whole
+ * first, since moving its tabs one by one out of place ungroups them.
+ */
+const sortWindow = async (tabs: IPlannedTab[]): Promise<void> => {
+  let index = 0;
+  while (index < tabs.length) {
+    const tab = tabs[index];
+    if (!tab) {
+      break;
+    }
+    const blockEnd =
+      tab.groupId === TAB_GROUP_ID_NONE
+        ? index + 1
+        : tabs.findIndex(
+            (other, i) => i > index && other.groupId !== tab.groupId
+          );
+    const block = tabs.slice(index, blockEnd === -1 ? undefined : blockEnd);
+
+    if (tab.groupId !== TAB_GROUP_ID_NONE) {
+      try {
+        await chrome.tabGroups.move(tab.groupId, { index });
+      } catch (moveError) {
+        console.error(`Failed to move tab group ${tab.groupId}:`, moveError);
+      }
+    }
+    for (const [offset, blockTab] of block.entries()) {
+      try {
+        await chrome.tabs.move(blockTab.tabId, { index: index + offset });
+      } catch (moveError) {
+        console.error(`Failed to move tab ${blockTab.tabId}:`, moveError);
+      }
+    }
+    index += block.length;
+  }
+};
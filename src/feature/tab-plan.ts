@@ -0,0 +1,309 @@
+import {
+  DedupeKeepPolicy,
+  IPlannedTab,
+  IPlannedTabGroup,
+  ITabGroupTarget,
+  TabPlan,
+} from '../types';
+import {
+  TAB_GROUP_ID_NONE,
+  TAB_GROUP_MIN_DOMAIN_TABS,
+} from '../utils/constants';
+import { orderWindowTabs } from './tab-sort';
+import { findDuplicateGroups, IDedupeRules } from './tab-dedupe';
+
+export const TAB_PLAN_LABELS: Record<TabPlan['kind'], string> = {
+  sort: 'Sort',
+  dedupe: 'Dedupe',
+  merge: 'Merge',
+  group: 'Group',
+  ungroup: 'Ungroup',
+  split: 'Split',
+};
+
+const toPlannedTab = (tab: chrome.tabs.Tab): IPlannedTab => ({
+  tabId: tab.id ?? -1,
+  windowId: tab.windowId,
+  index: tab.index,
+  groupId: tab.groupId ?? TAB_GROUP_ID_NONE,
+  title: tab.title || tab.url || '',
+  url: tab.url || '',
+});
+
+const groupByWindow = (tabs: chrome.tabs.Tab[]) => {
+  const tabsByWindow = new Map<number, chrome.tabs.Tab[]>();
+  for (const tab of tabs) {
+    const windowTabs = tabsByWindow.get(tab.windowId) ?? [];
+    windowTabs.push(tab);
+    tabsByWindow.set(tab.windowId, windowTabs);
+  }
+  return tabsByWindow;
+};
+
+/**
+ * Plans the new tab order of every window. Windows that are already in
+ * order are left out.
+ */
+export const planSort = (
+  tabs: chrome.tabs.Tab[],
+  compare: (a: chrome.tabs.Tab, b: chrome.tabs.Tab) => number,
+  keepPinned: boolean
+): TabPlan => {
+  const windows: { windowId: number; tabs: IPlannedTab[] }[] = [];
+  for (const [windowId, windowTabs] of groupByWindow(tabs)) {
+    const sortedTabs = orderWindowTabs(
+      windowTabs.filter(tab => tab.id !== undefined),
+      compare,
+      keepPinned
+    ).map(toPlannedTab);
+    if (sortedTabs.some((tab, i) => tab.index !== i)) {
+      windows.push({ windowId, tabs: sortedTabs });
+    }
+  }
+  return { kind: 'sort', windows };
+};
+
+export const planDedupe = (
+  tabs: chrome.tabs.Tab[],
+  rules: IDedupeRules,
+  policy: DedupeKeepPolicy
+): TabPlan => ({
+  kind: 'dedupe',
+  closes: findDuplicateGroups(tabs, rules, policy).flatMap(
+    ({ keep, duplicates }) =>
+      duplicates.map(tab => ({
+        tab: toPlannedTab(tab),
+        keptTab: toPlannedTab(keep),
+      }))
+  ),
+});
+
+/**
+ * Plans moving the tabs of all other windows to the end of the target window
+ */
+export const planMerge = (
+  tabs: chrome.tabs.Tab[],
+  targetWindowId: number
+): TabPlan => ({
+  kind: 'merge',
+  targetWindowId,
+  moves: tabs
+    .filter(tab => tab.windowId !== targetWindowId && tab.id !== undefined)
+    .map(toPlannedTab),
+});
+
+/**
+ * Plans putting tabs into groups. Tabs join an existing group of the same
+ * title in their window when there is one. Pinned tabs cannot be grouped.
+ * Tabs of groups the user made, whose title is none of the planned titles,
+ * are only moved by a rule.
+ * @param resolveGroup - group a tab belongs in, or null to leave it alone
+ */
+export const planGroup = (
+  tabs: chrome.tabs.Tab[],
+  resolveGroup: (tab: chrome.tabs.Tab) => ITabGroupTarget | null,
+  existingGroups: { id: number; windowId: number; title?: string }[]
+): TabPlan => {
+  const resolvedTabs = tabs.flatMap(tab => {
+    const target =
+      tab.pinned || tab.id === undefined ? null : resolveGroup(tab);
+    return target ? [{ tab, target }] : [];
+  });
+  const plannedTitles = new Set(resolvedTabs.map(({ target }) => target.title));
+  const isUserGroup = (groupId: number | undefined) => {
+    const group = existingGroups.find(group => group.id === groupId);
+    return !!group && !plannedTitles.has(group.title ?? '');
+  };
+
+  const targets = new Map<
+    string,
+    { windowId: number; target: ITabGroupTarget; tabs: chrome.tabs.Tab[] }
+  >();
+  for (const { tab, target } of resolvedTabs) {
+    if (!target.fromRule && isUserGroup(tab.groupId)) {
+      continue;
+    }
+    const key = `${tab.windowId}\n${target.title}`;
+    const entry = targets.get(key) ?? {
+      windowId: tab.windowId,
+      target,
+      tabs: [],
+    };
+    entry.tabs.push(tab);
+    targets.set(key, entry);
+  }
+
+  const groups: IPlannedTabGroup[] = [];
+  for (const { windowId, target, tabs: groupTabs } of targets.values()) {
+    const existing = existingGroups.find(
+      group => group.windowId === windowId && group.title === target.title
+    );
+    if (
+      !existing &&
+      !target.fromRule &&
+      groupTabs.length < TAB_GROUP_MIN_DOMAIN_TABS
+    ) {
+      continue;
+    }
+    const tabsToGroup = groupTabs.filter(tab => tab.groupId !== existing?.id);
+    if (tabsToGroup.length > 0) {
+      groups.push({
+        windowId,
+        groupId: existing?.id ?? TAB_GROUP_ID_NONE,
+        title: target.title,
+        color: target.color,
+        tabs: tabsToGroup.map(toPlannedTab),
+      });
+    }
+  }
+  return { kind: 'group', groups };
+};
+
+export const planUngroup = (tabs: chrome.tabs.Tab[]): TabPlan => ({
+  kind: 'ungroup',
+  tabs: tabs
+    .filter(tab => tab.id !== undefined && tab.groupId !== TAB_GROUP_ID_NONE)
+    .map(toPlannedTab),
+});
+
+/**
+ * Plans splitting a window into one window per key, e.g. per domain. The
+ * tabs sharing a key with the active tab stay, and so do pinned tabs. Each
+ * new window is labeled with the title of its key.
+ */
+export const planSplit = <K>(
+  tabs: chrome.tabs.Tab[],
+  getKey: (tab: chrome.tabs.Tab) => K,
+  getTitle: (key: K) => string = String
+): TabPlan => {
+  const tabsByKey = new Map<K, chrome.tabs.Tab[]>();
+  for (const tab of tabs) {
+    if (tab.pinned || tab.id === undefined) {
+      continue;
+    }
+    const key = getKey(tab);
+    tabsByKey.set(key, [...(tabsByKey.get(key) ?? []), tab]);
+  }
+  const activeTab = tabs.find(tab => tab.active && !tab.pinned);
+  const stayingKey = activeTab
+    ? getKey(activeTab)
+    : tabsByKey.keys().next().value;
+  return {
+    kind: 'split',
+    windows: Array.from(tabsByKey)
+      .filter(([key]) => key !== stayingKey)
+      .map(([key, keyTabs]) => ({
+        title: getTitle(key),
+        tabs: keyTabs.map(toPlannedTab),
+      })),
+  };
+};
+
+/**
+ * Plans moving the matching tabs of all windows into one new window
+ */
+export const planMoveToNewWindow = (
+  tabs: chrome.tabs.Tab[],
+  matches: (tab: chrome.tabs.Tab) => boolean,
+  title: string
+): TabPlan => {
+  const matchingTabs = tabs.filter(tab => tab.id !== undefined && matches(tab));
+  return {
+    kind: 'split',
+    windows:
+      matchingTabs.length > 0
+        ? [{ title, tabs: matchingTabs.map(toPlannedTab) }]
+        : [],
+  };
+};
+
+/**
+ * Lists every tab the plan touches, in the order the plan touches them
+ */
+export const getPlannedTabs = (plan: TabPlan): IPlannedTab[] => {
+  switch (plan.kind) {
+    case 'sort':
+      return plan.windows.flatMap(window => window.tabs);
+    case 'dedupe':
+      return plan.closes.map(close => close.tab);
+    case 'merge':
+      return plan.moves;
+    case 'group':
+      return plan.groups.flatMap(group => group.tabs);
+    case 'ungroup':
+      return plan.tabs;
+    case 'split':
+      return plan.windows.flatMap(window => window.tabs);
+  }
+};
+
+export const isPlanEmpty = (plan: TabPlan): boolean =>
+  getPlannedTabs(plan).length === 0;
+
+/**
+ * Puts the excluded tabs of a sorted window back at their current index. The
+ * other tabs fill the remaining places in sorted order.
+ */
+const keepExcludedInPlace = (
+  sortedTabs: IPlannedTab[],
+  excludedTabIds: Set<number>
+): IPlannedTab[] => {
+  const excludedByIndex = new Map(
+    sortedTabs
+      .filter(tab => excludedTabIds.has(tab.tabId))
+      .map(tab => [tab.index, tab])
+  );
+  const includedTabs = sortedTabs.filter(tab => !excludedTabIds.has(tab.tabId));
+  const orderedTabs: IPlannedTab[] = [];
+  for (let index = 0; index < sortedTabs.length; index++) {
+    const tab = excludedByIndex.get(index) ?? includedTabs.shift();
+    if (tab) {
+      orderedTabs.push(tab);
+    }
+  }
+  return orderedTabs;
+};
+
+/**
+ * Drops tabs from a plan. Tabs left out of a sort stay where they are.
+ */
+export const excludeFromPlan = (
+  plan: TabPlan,
+  excludedTabIds: Set<number>
+): TabPlan => {
+  const isIncluded = (tab: IPlannedTab) => !excludedTabIds.has(tab.tabId);
+  switch (plan.kind) {
+    case 'sort':
+      return {
+        ...plan,
+        windows: plan.windows.map(window => ({
+          ...window,
+          tabs: keepExcludedInPlace(window.tabs, excludedTabIds),
+        })),
+      };
+    case 'dedupe':
+      return {
+        ...plan,
+        closes: plan.closes.filter(close => isIncluded(close.tab)),
+      };
+    case 'merge':
+      return { ...plan, moves: plan.moves.filter(isIncluded) };
+    case 'group':
+      return {
+        ...plan,
+        groups: plan.groups.map(group => ({
+          ...group,
+          tabs: group.tabs.filter(isIncluded),
+        })),
+      };
+    case 'ungroup':
+      return { ...plan, tabs: plan.tabs.filter(isIncluded) };
+    case 'split':
+      return {
+        ...plan,
+        windows: plan.windows
+          .map(window => ({ ...window, tabs: window.tabs.filter(isIncluded) }))
+          .filter(window => window.tabs.length > 0),
+      };
+  }
+};
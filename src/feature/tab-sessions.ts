@@ -0,0 +1,274 @@
+import { StorageKeys } from '../utils/constants';
+import { validateUrl } from '../searching/utils';
+import {
+  ISessionsImport,
+  ISessionTab,
+  IStoredTabSessions,
+  ITabSession,
+} from '../types';
+
+export const TAB_SESSIONS_VERSION = 1;
+
+export class TabSessions {
+  private static instance: TabSessions;
+  private sessions: ITabSession[] = [];
+
+  private constructor() {}
+
+  static async getInstance(): Promise<TabSessions> {
+    if (!TabSessions.instance) {
+      TabSessions.instance = new TabSessions();
+      await TabSessions.instance.loadFromStorage();
+    }
+    return TabSessions.instance;
+  }
+
+  async loadFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(StorageKeys.TAB_SESSIONS);
+      const stored = result[StorageKeys.TAB_SESSIONS] as
+        IStoredTabSessions | undefined;
+      this.sessions = Array.isArray(stored?.sessions) ? stored.sessions : [];
+    } catch (error) {
+      console.error('Failed to load tab sessions:', error);
+    }
+  }
+
+  /**
+   * Newest first
+   */
+  getSessions(): ITabSession[] {
+    return [...this.sessions].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Saves the tabs of the current window, or of all normal windows.
+   * Incognito windows are never saved, so their URLs stay off the disk.
+   * @throws if the name is empty, the current window is incognito or there
+   * are no tabs to save
+   */
+  async saveOpenWindows(
+    name: string,
+    allWindows: boolean
+  ): Promise<ITabSession> {
+    if (name.trim().length === 0) {
+      throw new Error('Session name cannot be empty');
+    }
+    const windows = allWindows
+      ? await chrome.windows.getAll({ populate: true, windowTypes: ['normal'] })
+      : [await chrome.windows.getCurrent({ populate: true })];
+    if (!allWindows && windows[0]?.incognito) {
+      throw new Error('Incognito windows cannot be saved as a session');
+    }
+
+    const session = createSession(
+      name,
+      windows.map(window =>
+        (window.tabs ?? []).flatMap(tab =>
+          tab.url && !tab.incognito
+            ? [
+                {
+                  url: tab.url,
+                  title: tab.title || tab.url,
+                  pinned: tab.pinned,
+                },
+              ]
+            : []
+        )
+      )
+    );
+    if (session.windows.length === 0) {
+      throw new Error('There are no tabs to save');
+    }
+    await this.addSessions([session]);
+    return session;
+  }
+
+  /**
+   * Opens every window of the session as a new window
+   */
+  async restore(id: string): Promise<void> {
+    const session = this.sessions.find(s => s.id === id);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    for (const sessionWindow of session.windows) {
+      const window = await chrome.windows.create({
+        url: sessionWindow.tabs.map(tab => tab.url),
+      });
+      const pinnedTabs = (window?.tabs ?? []).filter(
+        (_, index) => sessionWindow.tabs[index]?.pinned
+      );
+      for (const tab of pinnedTabs) {
+        if (tab.id !== undefined) {
+          await chrome.tabs.update(tab.id, { pinned: true });
+        }
+      }
+    }
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const index = this.sessions.findIndex(s => s.id === id);
+    if (index === -1) {
+      return false;
+    }
+    this.sessions.splice(index, 1);
+    await this.saveToStorage();
+    return true;
+  }
+
+  /**
+   * Imports sessions exported as JSON, or a plain list of URLs as a new
+   * single-window session
+   * @returns the imported sessions and the number of skipped ones
+   * @throws if the text contains neither, or no session could be read
+   */
+  async import(text: string): Promise<ISessionsImport> {
+    const result = parseSessionsImport(text);
+    if (result.sessions.length === 0) {
+      throw new Error(
+        result.skippedCount > 0
+          ? 'None of the sessions has a window with a valid tab'
+          : 'No sessions or URLs found to import'
+      );
+    }
+    await this.addSessions(result.sessions);
+    return result;
+  }
+
+  private async addSessions(sessions: ITabSession[]): Promise<void> {
+    this.sessions.push(...sessions);
+    await this.saveToStorage();
+  }
+
+  private async saveToStorage(): Promise<void> {
+    const stored: IStoredTabSessions = {
+      version: TAB_SESSIONS_VERSION,
+      sessions: this.sessions,
+    };
+    await chrome.storage.local.set({ [StorageKeys.TAB_SESSIONS]: stored });
+  }
+}
+
+const createSession = (
+  name: string,
+  windows: ISessionTab[][]
+): ITabSession => ({
+  id: crypto.randomUUID(),
+  name: name.trim(),
+  createdAt: Date.now(),
+  windows: windows.filter(tabs => tabs.length > 0).map(tabs => ({ tabs })),
+});
+
+export const exportSessionsAsJson = (sessions: ITabSession[]): string =>
+  JSON.stringify(
+    { version: TAB_SESSIONS_VERSION, sessions } as IStoredTabSessions,
+    null,
+    2
+  );
+
+/**
+ * One URL per line, with a blank line between windows
+ */
+export const exportSessionAsUrlList = (session: ITabSession): string =>
+  session.windows
+    .map(window => window.tabs.map(tab => tab.url).join('\n'))
+    .join('\n\n');
+
+// Imported JSON, whose fields still have to be checked
+type Unchecked<T> = { [K in keyof T]?: unknown };
+
+const isRecord = <T>(value: unknown): value is Unchecked<T> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads a tab of an imported session, or null without an http(s) URL
+ */
+const parseSessionTab = (value: unknown): ISessionTab | null => {
+  if (
+    !isRecord<ISessionTab>(value) ||
+    typeof value.url !== 'string' ||
+    !validateUrl(value.url)
+  ) {
+    return null;
+  }
+  return {
+    url: value.url,
+    title:
+      typeof value.title === 'string' && value.title ? value.title : value.url,
+    pinned: value.pinned === true,
+  };
+};
+
+/**
+ * Reads an imported session, or null when it has no window with a tab
+ */
+const parseSession = (value: unknown): ITabSession | null => {
+  if (!isRecord<ITabSession>(value) || !Array.isArray(value.windows)) {
+    return null;
+  }
+  const session = createSession(
+    typeof value.name === 'string' && value.name.trim()
+      ? value.name
+      : 'Imported session',
+    value.windows.map(window =>
+      isRecord<{ tabs: ISessionTab[] }>(window) && Array.isArray(window.tabs)
+        ? window.tabs.flatMap(tab => parseSessionTab(tab) ?? [])
+        : []
+    )
+  );
+  if (session.windows.length === 0) {
+    return null;
+  }
+  return typeof value.createdAt === 'number' && value.createdAt > 0
+    ? { ...session, createdAt: value.createdAt }
+    : session;
+};
+
+/**
+ * Parses an exported JSON file, or a URL list where blank lines separate
+ * windows. Imported sessions get new ids so they never replace saved ones.
+ * Sessions without a window with a valid tab are skipped.
+ * @throws if the JSON is malformed or has no list of sessions
+ */
+export const parseSessionsImport = (text: string): ISessionsImport => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error('The text is not valid JSON');
+    }
+    const values =
+      isRecord<IStoredTabSessions>(parsed) && 'sessions' in parsed
+        ? parsed.sessions
+        : parsed;
+    if (!Array.isArray(values) && !isRecord<ITabSession>(values)) {
+      throw new Error('Expected a session or a list of sessions');
+    }
+    const sessions = (Array.isArray(values) ? values : [values]).map(
+      parseSession
+    );
+    return {
+      sessions: sessions.filter(session => session !== null),
+      skippedCount: sessions.filter(session => session === null).length,
+    };
+  }
+
+  const windows = trimmed.split(/\n\s*\n/).map(block =>
+    block
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => validateUrl(line))
+      .map(url => ({ url, title: url, pinned: false }))
+  );
+  const session = createSession(
+    `Imported ${new Date().toLocaleString()}`,
+    windows
+  );
+  return {
+    sessions: session.windows.length > 0 ? [session] : [],
+    skippedCount: 0,
+  };
+};
@@ -0,0 +1,125 @@
+import { parse } from 'tldts';
+import { TabSortStrategy } from '../types';
+import { TAB_GROUP_ID_NONE } from '../utils/constants';
+
+interface UrlInfo {
+  domain: string;
+  subdomain: string;
+  pathName: string;
+  search: string;
+}
+
+type TabComparator = (a: chrome.tabs.Tab, b: chrome.tabs.Tab) => number;
+
+const URL_INFO_ORDER: (keyof UrlInfo)[] = [
+  'domain',
+  'subdomain',
+  'pathName',
+  'search',
+];
+
+/**
+ * Splits a URL into the parts tabs are sorted by. The domain is the
+ * registrable domain from the public suffix list, so `bbc.co.uk` and
+ * `news.bbc.co.uk` sort together.
+ */
+export const getUrlInfo = (url: string): UrlInfo => {
+  try {
+    if (!url) {
+      return { domain: '', subdomain: '', pathName: '', search: '' };
+    }
+
+    const urlObj = new URL(url);
+    // IP addresses and hosts like localhost have no registrable domain
+    const { domain, subdomain } = parse(urlObj.hostname);
+    return {
+      domain: domain ?? urlObj.hostname,
+      subdomain: domain ? (subdomain ?? '') : '',
+      pathName: urlObj.pathname || '',
+      search: urlObj.search || '',
+    };
+  } catch (e) {
+    console.error('Unable to parse URL:', url, e);
+    return { domain: url || '', subdomain: '', pathName: '', search: '' };
+  }
+};
+
+const compareByUrl: TabComparator = (a, b) => {
+  const urlA = getUrlInfo(a.url || '');
+  const urlB = getUrlInfo(b.url || '');
+  for (const key of URL_INFO_ORDER) {
+    const compareResult = urlA[key].localeCompare(urlB[key]);
+    if (compareResult !== 0) {
+      return compareResult;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Creates the comparator for a sort strategy. Tabs that tie are ordered by
+ * URL, so the result does not depend on the current tab order.
+ * @param getVisitCount - Y-Nav visit count of a tab URL
+ */
+export const createTabComparator = (
+  strategy: TabSortStrategy,
+  getVisitCount: (url: string) => number = () => 0
+): TabComparator => {
+  const primary: TabComparator = (() => {
+    switch (strategy) {
+      case 'title':
+        return (a, b) =>
+          (a.title || '').localeCompare(b.title || '', undefined, {
+            sensitivity: 'base',
+          });
+      case 'lastAccessed':
+        // Most recently used first
+        return (a, b) => (b.lastAccessed ?? 0) - (a.lastAccessed ?? 0);
+      case 'visitCount':
+        // Most visited first
+        return (a, b) =>
+          getVisitCount(b.url || '') - getVisitCount(a.url || '');
+      default:
+        return () => 0;
+    }
+  })();
+
+  return (a, b) => primary(a, b) || compareByUrl(a, b);
+};
+
+/**
+ * Computes the new order of the tabs of one window. Pinned tabs always stay
+ * in front of the others, and keep their current order if `keepPinned` is set.
+ * Tab groups stay together: their tabs are sorted within the group, and the
+ * group is placed by its first tab.
+ */
+export const orderWindowTabs = (
+  tabs: chrome.tabs.Tab[],
+  compare: TabComparator,
+  keepPinned: boolean
+): chrome.tabs.Tab[] => {
+  const byIndex = [...tabs].sort((a, b) => a.index - b.index);
+  const pinned = byIndex.filter(tab => tab.pinned);
+  const unpinned = byIndex.filter(tab => !tab.pinned);
+
+  const units: chrome.tabs.Tab[][] = [];
+  const groups = new Map<number, chrome.tabs.Tab[]>();
+  for (const tab of unpinned) {
+    if (tab.groupId === undefined || tab.groupId === TAB_GROUP_ID_NONE) {
+      units.push([tab]);
+      continue;
+    }
+    const group = groups.get(tab.groupId);
+    if (group) {
+      group.push(tab);
+    } else {
+      const newGroup = [tab];
+      groups.set(tab.groupId, newGroup);
+      units.push(newGroup);
+    }
+  }
+  units.forEach(unit => unit.sort(compare));
+  units.sort((a, b) => (a[0] && b[0] ? compare(a[0], b[0]) : 0));
+
+  return [...(keepPinned ? pinned : pinned.sort(compare)), ...units.flat()];
+};
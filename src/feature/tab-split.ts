@@ -0,0 +1,30 @@
+import { TabPlan } from '../types';
+import { planSplit } from './tab-plan';
+import { getUrlInfo } from './tab-sort';
+
+export type SplitWindowBy = 'domain' | 'group';
+
+/**
+ * Plans splitting the current window into one window per registrable
+ * domain, or per tab group with the ungrouped tabs kept together
+ */
+export const planSplitCurrentWindow = async (
+  by: SplitWindowBy
+): Promise<TabPlan> => {
+  const tabs = await chrome.tabs.query({ currentWindow: true });
+  if (by === 'domain') {
+    return planSplit(tabs, tab => getUrlInfo(tab.url || '').domain || 'Other');
+  }
+  const groups = await chrome.tabGroups.query({
+    windowId: chrome.windows.WINDOW_ID_CURRENT,
+  });
+  const groupTitles = new Map(
+    groups.map(group => [group.id, group.title || 'Unnamed group'])
+  );
+  // Groups may share a title, so they are told apart by id
+  return planSplit(
+    tabs,
+    tab => tab.groupId,
+    groupId => groupTitles.get(groupId) ?? 'Ungrouped'
+  );
+};
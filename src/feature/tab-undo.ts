@@ -0,0 +1,247 @@
+import { ITabSnapshot, ITabSnapshotTab } from '../types';
+import { StorageKeys, TAB_UNDO_MAX_AGE_MS } from '../utils/constants';
+
+/**
+ * Keeps the tab layout from before the last tab operation, so Sort, Dedupe
+ * and Merge can be undone. The snapshot is kept in session storage rather
+ * than in memory because the popup closes and the keyboard shortcut is handled
+ * by the background script; session storage is cleared with the browser, whose
+ * tab and window ids do not survive a restart. Incognito windows are left out
+ * of it, so their URLs are never stored.
+ */
+export class TabUndo {
+  async saveSnapshot(operation: string): Promise<void> {
+    const [windows, tabs, groups] = await Promise.all([
+      chrome.windows.getAll(),
+      chrome.tabs.query({}),
+      chrome.tabGroups.query({}),
+    ]);
+
+    const normalWindows = windows.filter(window => !window.incognito);
+    const normalWindowIds = new Set(normalWindows.map(window => window.id));
+
+    const snapshot: ITabSnapshot = {
+      operation,
+      takenAt: Date.now(),
+      windows: normalWindows.flatMap(window =>
+        window.id !== undefined ? [{ id: window.id }] : []
+      ),
+      tabs: tabs.flatMap(tab =>
+        tab.id !== undefined && !tab.incognito
+          ? [
+              {
+                id: tab.id,
+                url: tab.url || tab.pendingUrl || '',
+                windowId: tab.windowId,
+                index: tab.index,
+                pinned: tab.pinned,
+                groupId: tab.groupId,
+              },
+            ]
+          : []
+      ),
+      groups: groups
+        .filter(group => normalWindowIds.has(group.windowId))
+        .map(group => ({
+          id: group.id,
+          windowId: group.windowId,
+          title: group.title ?? '',
+          color: group.color,
+          collapsed: group.collapsed,
+        })),
+    };
+    await chrome.storage.session.set({
+      [StorageKeys.TAB_UNDO_SNAPSHOT]: snapshot,
+    });
+  }
+
+  /**
+   * Name of the operation that can be undone, if any
+   */
+  async getUndoableOperation(): Promise<string | null> {
+    return (await this.loadSnapshot())?.operation ?? null;
+  }
+
+  /**
+   * Restores the last snapshot: recreates closed windows, reopens closed tabs
+   * and moves tabs back to their windows, positions, pin and group state.
+   * Tabs opened after the snapshot stay open behind the restored ones.
+   * @returns the name of the undone operation, or null if there was none
+   */
+  async undo(): Promise<string | null> {
+    const snapshot = await this.loadSnapshot();
+    if (!snapshot) {
+      return null;
+    }
+    // Clear first, so a second undo does not replay the snapshot
+    await chrome.storage.session.remove(StorageKeys.TAB_UNDO_SNAPSHOT);
+
+    const openTabs = new Map(
+      (await chrome.tabs.query({})).map(tab => [tab.id, tab])
+    );
+    const openWindowIds = new Set(
+      (await chrome.windows.getAll()).map(window => window.id)
+    );
+    // Snapshot ids mapped to the ids after restoring
+    const windowIds = new Map<number, number>();
+    const tabIds = new Map<number, number>();
+
+    for (const window of snapshot.windows) {
+      const windowTabs = snapshot.tabs
+        .filter(tab => tab.windowId === window.id)
+        .sort((a, b) => a.index - b.index);
+      const windowId = openWindowIds.has(window.id)
+        ? window.id
+        : await this.recreateWindow(windowTabs, openTabs, tabIds);
+      if (windowId === undefined) {
+        continue;
+      }
+      windowIds.set(window.id, windowId);
+
+      for (const [index, tab] of windowTabs.entries()) {
+        const currentTabId =
+          tabIds.get(tab.id) ?? (openTabs.has(tab.id) ? tab.id : undefined);
+        try {
+          tabIds.set(
+            tab.id,
+            await this.restoreTab(tab, currentTabId, windowId, index, openTabs)
+          );
+        } catch (error) {
+          console.error(`Failed to restore tab ${tab.url}:`, error);
+        }
+      }
+    }
+
+    await this.restoreGroups(snapshot, windowIds, tabIds);
+    console.log(`Undid ${snapshot.operation}`);
+    return snapshot.operation;
+  }
+
+  /**
+   * The last snapshot, unless it is too old to undo: tabs opened and closed
+   * since would be reopened or moved without the user remembering why
+   */
+  private async loadSnapshot(): Promise<ITabSnapshot | null> {
+    const result = await chrome.storage.session.get(
+      StorageKeys.TAB_UNDO_SNAPSHOT
+    );
+    const snapshot =
+      (result[StorageKeys.TAB_UNDO_SNAPSHOT] as ITabSnapshot | undefined) ??
+      null;
+    if (snapshot && Date.now() - snapshot.takenAt > TAB_UNDO_MAX_AGE_MS) {
+      await chrome.storage.session.remove(StorageKeys.TAB_UNDO_SNAPSHOT);
+      return null;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Opens a window for a closed one, with one of its tabs that is still open
+   * or else the first of its closed tabs, which is recorded in `tabIds`
+   */
+  private async recreateWindow(
+    windowTabs: ITabSnapshotTab[],
+    openTabs: Map<number | undefined, chrome.tabs.Tab>,
+    tabIds: Map<number, number>
+  ): Promise<number | undefined> {
+    const openTab = windowTabs.find(tab => openTabs.has(tab.id));
+    const firstTab = windowTabs[0];
+    if (!firstTab) {
+      return undefined;
+    }
+    try {
+      if (openTab) {
+        return (await chrome.windows.create({ tabId: openTab.id }))?.id;
+      }
+      const window = await chrome.windows.create({ url: firstTab.url });
+      const createdTabId = window?.tabs?.[0]?.id;
+      if (createdTabId !== undefined) {
+        tabIds.set(firstTab.id, createdTabId);
+      }
+      return window?.id;
+    } catch (error) {
+      console.error('Failed to recreate window:', error);
+      return undefined;
+    }
+  }
+
+  private async restoreTab(
+    tab: ITabSnapshotTab,
+    currentTabId: number | undefined,
+    windowId: number,
+    index: number,
+    openTabs: Map<number | undefined, chrome.tabs.Tab>
+  ): Promise<number> {
+    if (currentTabId === undefined) {
+      const created = await chrome.tabs.create({
+        windowId,
+        index,
+        url: tab.url,
+        pinned: tab.pinned,
+        active: false,
+      });
+      return created.id ?? tab.id;
+    }
+
+    if (openTabs.get(currentTabId)?.pinned !== tab.pinned) {
+      await chrome.tabs.update(currentTabId, { pinned: tab.pinned });
+    }
+    await chrome.tabs.move(currentTabId, { windowId, index });
+    return currentTabId;
+  }
+
+  private async restoreGroups(
+    snapshot: ITabSnapshot,
+    windowIds: Map<number, number>,
+    tabIds: Map<number, number>
+  ): Promise<void> {
+    for (const group of snapshot.groups) {
+      const groupTabIds = snapshot.tabs
+        .filter(tab => tab.groupId === group.id)
+        .map(tab => tabIds.get(tab.id))
+        .filter(tabId => tabId !== undefined);
+      const windowId = windowIds.get(group.windowId);
+      if (groupTabIds.length === 0 || windowId === undefined) {
+        continue;
+      }
+      try {
+        const existing = await chrome.tabGroups.get(group.id).catch(() => null);
+        const groupId = await chrome.tabs.group(
+          existing?.windowId === windowId
+            ? {
+                tabIds: groupTabIds as [number, ...number[]],
+                groupId: group.id,
+              }
+            : {
+                tabIds: groupTabIds as [number, ...number[]],
+                createProperties: { windowId },
+              }
+        );
+        await chrome.tabGroups.update(groupId, {
+          title: group.title,
+          color: group.color,
+          collapsed: group.collapsed,
+        });
+      } catch (error) {
+        console.error(`Failed to restore tab group ${group.title}:`, error);
+      }
+    }
+
+    // Tabs moved next to or into a group may have joined it
+    const ungroupedTabIds = new Set(
+      snapshot.tabs
+        .filter(tab => tab.groupId === chrome.tabGroups.TAB_GROUP_ID_NONE)
+        .map(tab => tabIds.get(tab.id))
+    );
+    const tabsToUngroup = (await chrome.tabs.query({})).flatMap(tab =>
+      tab.id !== undefined &&
+      ungroupedTabIds.has(tab.id) &&
+      tab.groupId !== chrome.tabGroups.TAB_GROUP_ID_NONE
+        ? [tab.id]
+        : []
+    );
+    if (tabsToUngroup.length > 0) {
+      await chrome.tabs.ungroup(tabsToUngroup as [number, ...number[]]);
+    }
+  }
+}
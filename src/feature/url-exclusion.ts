@@ -1,74 +1,275 @@
+import { MAX_EXCLUSION_REGEX_LENGTH, StorageKeys } from '../utils/constants';
+import { throwIfNull } from '../error_handling';
+import { globToRegExp } from '../utils/glob';
+import {
+  ExclusionRuleType,
+  ExclusionScope,
+  IExclusionRule,
+  IStoredExclusionRules,
+} from '../types';
+
+export const EXCLUSION_RULES_VERSION = 2;
+export const ALL_EXCLUSION_SCOPES: ExclusionScope[] = [
+  'record',
+  'search',
+  'import',
+];
+
+type UrlMatcher = (url: URL) => boolean;
+
+// Quantified groups holding a quantifier, e.g. `(a+)+`, can take exponential
+// time on URLs that almost match and would stall visit tracking
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[*+}](?:[^()\\]|\\.)*\)[*+{]/;
+
+/**
+ * Compiles a regex rule pattern, case-insensitive
+ * @throws if the pattern is too long, invalid or prone to backtracking
+ */
+export const compileRegexPattern = (pattern: string): RegExp => {
+  if (pattern.length > MAX_EXCLUSION_REGEX_LENGTH) {
+    throw new Error(
+      `Regex cannot be longer than ${MAX_EXCLUSION_REGEX_LENGTH} characters`
+    );
+  }
+  if (NESTED_QUANTIFIER.test(pattern)) {
+    throw new Error(`Regex repeats a repeated group: ${pattern}`);
+  }
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    throw new Error(`Invalid regex: ${pattern}`);
+  }
+};
+
 export class UrlExclusion {
-  private static readonly STORAGE_KEY = 'url_exclusion_rules';
+  private static instance: UrlExclusion;
 
-  private excludedUrlPrefixes: Set<string>;
+  private rules: IExclusionRule[];
+  private matchers: Map<string, UrlMatcher>;
   private isRuleLoaded: boolean;
 
   constructor() {
-    this.excludedUrlPrefixes = new Set();
+    this.rules = [];
+    this.matchers = new Map();
     this.isRuleLoaded = false;
   }
 
+  static async getInstance(): Promise<UrlExclusion> {
+    if (!UrlExclusion.instance) {
+      UrlExclusion.instance = new UrlExclusion();
+      await UrlExclusion.instance.loadFromStorage();
+    }
+    return UrlExclusion.instance;
+  }
+
   async loadFromStorage(): Promise<void> {
     try {
       const storedRules = await chrome.storage.local.get(
-        UrlExclusion.STORAGE_KEY
+        StorageKeys.EXCLUDED_URLS
       );
-      if (storedRules[UrlExclusion.STORAGE_KEY]) {
-        this.excludedUrlPrefixes = new Set(
-          storedRules[UrlExclusion.STORAGE_KEY]
-        );
-      }
-      this.isRuleLoaded = true;
-      console.log(
-        'URL exclusion excludedUrlPrefixes loaded from storage:',
-        this.excludedUrlPrefixes
+      const { rules, migrated } = this.migrate(
+        storedRules[StorageKeys.EXCLUDED_URLS]
       );
+      this.setRules(rules);
+      this.isRuleLoaded = true;
+      if (migrated) {
+        await this.saveToStorage();
+      }
+      console.log('URL exclusion rules loaded from storage:', this.rules);
     } catch (error) {
-      console.error(
-        'Error loading URL exclusion excludedUrlPrefixes from storage:',
-        error
-      );
+      console.error('Error loading URL exclusion rules from storage:', error);
     }
   }
 
   validateRuleIsLoaded(): void {
     if (!this.isRuleLoaded) {
-      throw new Error(
-        'URL exclusion excludedUrlPrefixes have not been loaded yet'
-      );
+      throw new Error('URL exclusion rules have not been loaded yet');
+    }
+  }
+
+  /**
+   * Adds a new exclusion rule
+   * @throws if the pattern is empty or cannot be compiled for its type
+   */
+  async addRule(
+    type: ExclusionRuleType,
+    rawPattern: string,
+    scopes: ExclusionScope[] = ALL_EXCLUSION_SCOPES
+  ): Promise<IExclusionRule> {
+    this.validateRuleIsLoaded();
+    const pattern = this.normalizePattern(type, rawPattern);
+    if (scopes.length === 0) {
+      throw new Error('At least one scope must be selected');
+    }
+
+    const rule: IExclusionRule = {
+      id: crypto.randomUUID(),
+      type,
+      pattern,
+      scopes: [...scopes],
+    };
+    // Compile before persisting so invalid patterns are never stored
+    this.matchers.set(rule.id, this.compileRule(rule));
+    this.rules.push(rule);
+    await this.saveToStorage();
+    return rule;
+  }
+
+  async updateRuleScopes(
+    id: string,
+    scopes: ExclusionScope[]
+  ): Promise<boolean> {
+    this.validateRuleIsLoaded();
+    const rule = this.rules.find(r => r.id === id);
+    if (!rule || scopes.length === 0) {
+      return false;
+    }
+    rule.scopes = [...scopes];
+    await this.saveToStorage();
+    return true;
+  }
+
+  async removeRule(id: string): Promise<boolean> {
+    this.validateRuleIsLoaded();
+    const index = this.rules.findIndex(r => r.id === id);
+    if (index === -1) {
+      return false;
     }
+    this.rules.splice(index, 1);
+    this.matchers.delete(id);
+    await this.saveToStorage();
+    return true;
   }
 
-  async addUrls(urlString: string) {
+  getRules(): IExclusionRule[] {
     this.validateRuleIsLoaded();
-    urlString
-      .split(',')
-      .map(url => url.trim())
-      .filter(url => url.length > 0)
-      .forEach(url => {
-        try {
-          if (!url.startsWith('http://') && !url.startsWith('https://')) {
-            url = `https://${url}`;
-          }
-          const u = new URL(url);
-          this.excludedUrlPrefixes.add(`${u.hostname}${u.pathname}`);
-        } catch (e) {
-          console.error('Error adding url prefix url:', url, e);
-        }
-      });
-    await chrome.storage.local.set({
-      [UrlExclusion.STORAGE_KEY]: Array.from(this.excludedUrlPrefixes),
-    });
-  }
-
-  isUrlExcluded(url: string): boolean {
+    return this.rules.map(rule => ({ ...rule, scopes: [...rule.scopes] }));
+  }
+
+  /**
+   * Checks a URL against the rules that apply to the given scope. The
+   * protocol is optional, so both raw tab URLs and normalized visit data keys
+   * can be passed in.
+   */
+  isUrlExcluded(url: string, scope: ExclusionScope): boolean {
     this.validateRuleIsLoaded();
-    for (const rule of this.excludedUrlPrefixes) {
-      if (url.startsWith(rule)) {
-        return true;
+    if (this.rules.length === 0) {
+      return false;
+    }
+    const parsedUrl = this.parseUrl(url);
+    if (parsedUrl === null) {
+      return false;
+    }
+    return this.rules.some(
+      rule =>
+        rule.scopes.includes(scope) &&
+        (this.matchers.get(rule.id)?.(parsedUrl) ?? false)
+    );
+  }
+
+  private setRules(rules: IExclusionRule[]): void {
+    this.rules = [];
+    this.matchers = new Map();
+    for (const rule of rules) {
+      try {
+        this.matchers.set(rule.id, this.compileRule(rule));
+        this.rules.push(rule);
+      } catch (error) {
+        console.error('Dropping invalid URL exclusion rule:', rule, error);
+      }
+    }
+  }
+
+  /**
+   * Upgrades stored rules to the current format. Version 1 was a plain array
+   * of `hostname+pathname` prefixes.
+   */
+  private migrate(stored: unknown): {
+    rules: IExclusionRule[];
+    migrated: boolean;
+  } {
+    if (!stored) {
+      return { rules: [], migrated: false };
+    }
+    if (Array.isArray(stored)) {
+      const rules = stored
+        .filter((prefix): prefix is string => typeof prefix === 'string')
+        .map(prefix => ({
+          id: crypto.randomUUID(),
+          type: 'prefix' as const,
+          pattern: prefix,
+          scopes: [...ALL_EXCLUSION_SCOPES],
+        }));
+      console.log(`Migrated ${rules.length} URL exclusion prefixes`);
+      return { rules, migrated: true };
+    }
+    const { version, rules } = stored as IStoredExclusionRules;
+    if (version !== EXCLUSION_RULES_VERSION || !Array.isArray(rules)) {
+      console.warn('Unknown URL exclusion rules format, ignoring:', stored);
+      return { rules: [], migrated: false };
+    }
+    return { rules, migrated: false };
+  }
+
+  private normalizePattern(type: ExclusionRuleType, rawPattern: string) {
+    const pattern = rawPattern.trim();
+    if (pattern.length === 0) {
+      throw new Error('Pattern cannot be empty');
+    }
+    switch (type) {
+      case 'prefix': {
+        const u =
+          this.parseUrl(pattern) ?? throwIfNull(`Invalid URL: ${pattern}`);
+        return `${u.hostname}${u.pathname}${u.search}`;
+      }
+      case 'host':
+        return (
+          this.parseUrl(pattern) ?? throwIfNull(`Invalid URL: ${pattern}`)
+        ).hostname;
+      default:
+        return pattern;
+    }
+  }
+
+  private compileRule(rule: IExclusionRule): UrlMatcher {
+    switch (rule.type) {
+      case 'prefix':
+        return url => this.toRuleKey(url).startsWith(rule.pattern);
+      case 'host':
+        return url => url.hostname === rule.pattern;
+      case 'glob': {
+        const regex = globToRegExp(rule.pattern);
+        return url => regex.test(this.toRuleKey(url));
+      }
+      case 'regex': {
+        const regex = compileRegexPattern(rule.pattern);
+        return url => regex.test(url.href);
       }
+      default:
+        throw new Error(`Unknown rule type: ${rule.type}`);
     }
-    return false;
+  }
+
+  private toRuleKey(url: URL): string {
+    return `${url.hostname}${url.pathname}${url.search}`;
+  }
+
+  private parseUrl(url: string): URL | null {
+    try {
+      if (!url.startsWith('http://') && !url.startsWith('https://')) {
+        url = `https://${url}`;
+      }
+      return new URL(url);
+    } catch {
+      return null;
+    }
+  }
+
+  private async saveToStorage(): Promise<void> {
+    const stored: IStoredExclusionRules = {
+      version: EXCLUSION_RULES_VERSION,
+      rules: this.rules,
+    };
+    await chrome.storage.local.set({ [StorageKeys.EXCLUDED_URLS]: stored });
   }
 }
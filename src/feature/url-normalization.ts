@@ -0,0 +1,167 @@
+import {
+  StorageKeys,
+  TRACKING_PARAM_PREFIXES,
+  TRACKING_PARAMS,
+} from '../utils/constants';
+import { normalizeUrl } from '../searching/utils';
+import { IQueryParamRule, IStoredUrlNormalization } from '../types';
+
+export const URL_NORMALIZATION_VERSION = 1;
+
+export const DEFAULT_QUERY_PARAM_RULES: Omit<IQueryParamRule, 'id'>[] = [
+  { host: 'youtube.com', params: ['v'] },
+  { host: 'news.ycombinator.com', params: ['id'] },
+];
+
+export const DEFAULT_TRACKING_PARAMS = [
+  ...TRACKING_PARAM_PREFIXES.map(prefix => `${prefix}*`),
+  ...TRACKING_PARAMS,
+];
+
+const normalizeHost = (rawHost: string): string =>
+  rawHost
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/\/.*$/, '')
+    .replace(/^www\./, '');
+
+const parseParamList = (rawParams: string | string[]): string[] =>
+  (Array.isArray(rawParams) ? rawParams : rawParams.split(/[\s,]+/))
+    .map(param => param.trim())
+    .filter(param => param.length > 0);
+
+/**
+ * Decides which query parameters are part of the key visits are stored
+ * under. Without a rule for its host a URL is reduced to origin and path.
+ */
+export class UrlNormalization {
+  private static instance: UrlNormalization;
+
+  private rules: IQueryParamRule[] = [];
+  private trackingParams: string[] = [...DEFAULT_TRACKING_PARAMS];
+
+  private constructor() {}
+
+  static async getInstance(): Promise<UrlNormalization> {
+    if (!UrlNormalization.instance) {
+      UrlNormalization.instance = new UrlNormalization();
+      await UrlNormalization.instance.loadFromStorage();
+    }
+    return UrlNormalization.instance;
+  }
+
+  async loadFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(
+        StorageKeys.URL_NORMALIZATION
+      );
+      const stored = result[StorageKeys.URL_NORMALIZATION] as
+        IStoredUrlNormalization | undefined;
+      if (stored?.version === URL_NORMALIZATION_VERSION) {
+        this.rules = stored.rules;
+        this.trackingParams = stored.trackingParams;
+      } else {
+        this.rules = DEFAULT_QUERY_PARAM_RULES.map(rule => ({
+          id: crypto.randomUUID(),
+          ...rule,
+        }));
+        this.trackingParams = [...DEFAULT_TRACKING_PARAMS];
+      }
+    } catch (error) {
+      console.error('Failed to load URL normalization rules:', error);
+    }
+  }
+
+  getRules(): IQueryParamRule[] {
+    return this.rules.map(rule => ({ ...rule, params: [...rule.params] }));
+  }
+
+  getTrackingParams(): string[] {
+    return [...this.trackingParams];
+  }
+
+  /**
+   * Adds or replaces the rule of a host
+   * @param rawParams - parameter names, comma or space separated
+   * @throws if the host or the parameter list is empty
+   */
+  async setRule(
+    rawHost: string,
+    rawParams: string | string[]
+  ): Promise<IQueryParamRule> {
+    const host = normalizeHost(rawHost);
+    const params = parseParamList(rawParams);
+    if (host.length === 0) {
+      throw new Error('Host cannot be empty');
+    }
+    if (params.length === 0) {
+      throw new Error('At least one query parameter is required');
+    }
+    const rule: IQueryParamRule = { id: crypto.randomUUID(), host, params };
+    this.rules = [...this.rules.filter(r => r.host !== host), rule];
+    await this.saveToStorage();
+    return rule;
+  }
+
+  async removeRule(id: string): Promise<boolean> {
+    const count = this.rules.length;
+    this.rules = this.rules.filter(rule => rule.id !== id);
+    if (this.rules.length === count) {
+      return false;
+    }
+    await this.saveToStorage();
+    return true;
+  }
+
+  async setTrackingParams(rawParams: string | string[]): Promise<void> {
+    this.trackingParams = parseParamList(rawParams);
+    await this.saveToStorage();
+  }
+
+  isTrackingParam(name: string): boolean {
+    const lowerName = name.toLowerCase();
+    return this.trackingParams.some(param =>
+      param.endsWith('*')
+        ? lowerName.startsWith(param.slice(0, -1).toLowerCase())
+        : lowerName === param.toLowerCase()
+    );
+  }
+
+  /**
+   * The most specific rule whose host is the hostname or one of its parents
+   */
+  getRuleForHost(hostname: string): IQueryParamRule | null {
+    const host = normalizeHost(hostname);
+    return (
+      this.rules
+        .filter(rule => host === rule.host || host.endsWith(`.${rule.host}`))
+        .sort((a, b) => b.host.length - a.host.length)[0] ?? null
+    );
+  }
+
+  /**
+   * Builds the visit data key of a URL
+   */
+  normalize(url: URL): string {
+    const rule = this.getRuleForHost(url.hostname);
+    if (!rule) {
+      return normalizeUrl(url);
+    }
+    return normalizeUrl(
+      url,
+      name =>
+        !this.isTrackingParam(name) &&
+        (rule.params.includes('*') || rule.params.includes(name))
+    );
+  }
+
+  private async saveToStorage(): Promise<void> {
+    const stored: IStoredUrlNormalization = {
+      version: URL_NORMALIZATION_VERSION,
+      rules: this.rules,
+      trackingParams: this.trackingParams,
+    };
+    await chrome.storage.local.set({ [StorageKeys.URL_NORMALIZATION]: stored });
+  }
+}
@@ -0,0 +1,42 @@
+import { SearchEntry } from '../types';
+import { BOOKMARK_FOLDER_URL_PREFIX } from '../utils/constants';
+
+export const formatFolderPath = (folderPath: string[]): string =>
+  folderPath.join(' › ');
+
+/**
+ * Builds a result for every bookmark folder that directly holds bookmarks.
+ * A folder opens those bookmarks, ranks like its most frecent one and shows
+ * its parent folders as breadcrumb.
+ * @param bookmarks - bookmark entries with the folders they are in
+ */
+export const buildFolderEntries = (
+  bookmarks: { entry: SearchEntry; folderPath: string[] }[]
+): SearchEntry[] => {
+  const folders = new Map<
+    string,
+    { folderPath: string[]; entries: SearchEntry[] }
+  >();
+  for (const { entry, folderPath } of bookmarks) {
+    if (folderPath.length === 0) {
+      continue;
+    }
+    // Encoded, so the URL is safe to put in attributes
+    const key = folderPath.map(encodeURIComponent).join('/');
+    const folder = folders.get(key) ?? { folderPath, entries: [] };
+    folder.entries.push(entry);
+    folders.set(key, folder);
+  }
+
+  return [...folders].map(([key, { folderPath, entries }]) => ({
+    url: `${BOOKMARK_FOLDER_URL_PREFIX}${key}`,
+    title: folderPath[folderPath.length - 1] ?? '',
+    folderPath: formatFolderPath(folderPath.slice(0, -1)),
+    visitCount: 0,
+    lastVisited: Math.max(...entries.map(entry => entry.lastVisited)),
+    frecency: Math.max(...entries.map(entry => entry.frecency)),
+    isBookmark: true,
+    isOpenTab: false,
+    folderUrls: entries.map(entry => entry.url),
+  }));
+};
@@ -1,28 +1,169 @@
+import { OpenDisposition, SearchEntryAction } from '../types';
+
+export interface IKeyboardActions {
+  open: (disposition: OpenDisposition) => void | Promise<void>;
+  move: (direction: number) => void;
+  moveByPage: (direction: number) => void;
+  // Returns false when no result is selected, so the caret moves instead
+  moveToEdge: (edge: 'first' | 'last') => boolean;
+  // Returns false when no result is selected with the keyboard, so a space
+  // is typed instead
+  toggleMark: () => boolean;
+  extendMarks: (direction: number) => void;
+  openInGroup: () => void | Promise<void>;
+  entryAction: (action: SearchEntryAction) => void | Promise<void>;
+  toggleHelp: () => void;
+  escape: () => void;
+}
+
+interface IModifierKeys {
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}
+
+// Listed by the shortcuts help overlay
+export const KEY_BINDINGS: { keys: string; description: string }[] = [
+  { keys: 'Enter', description: 'Open, or switch to the open tab' },
+  {
+    keys: 'Space',
+    description: 'Mark the result, Enter then opens all marked results',
+  },
+  { keys: 'Shift+↑ ↓', description: 'Mark results while moving' },
+  { keys: 'Alt+Shift+G', description: 'Open in a new tab group' },
+  { keys: 'Ctrl+Enter', description: 'Open in a background tab' },
+  { keys: 'Shift+Enter', description: 'Open in a new window' },
+  { keys: 'Ctrl+Shift+Enter', description: 'Open in an incognito window' },
+  { keys: 'Alt+Enter', description: 'Open in the current tab' },
+  {
+    keys: '↑ ↓ Tab Shift+Tab',
+    description: 'Select the previous or next result',
+  },
+  { keys: 'PageUp PageDown', description: 'Move the selection by a page' },
+  { keys: 'Home End', description: 'Select the first or last result' },
+  { keys: 'Alt+C', description: 'Copy the URL' },
+  { keys: 'Alt+Shift+C', description: 'Copy as a Markdown link' },
+  { keys: 'F2', description: 'Rename' },
+  { keys: 'Ctrl+D', description: 'Add a bookmark' },
+  { keys: 'Alt+Shift+R', description: 'Reset the visit count' },
+  { keys: 'Shift+Del', description: 'Delete from Y-Nav' },
+  { keys: 'Alt+Shift+M', description: 'Move matching tabs to a new window' },
+  { keys: 'F1', description: 'Show or hide this help' },
+  { keys: 'Esc', description: 'Close the help, or the popup' },
+];
+
+/**
+ * Maps the modifiers held while picking a result to where it opens. Cmd
+ * counts as Ctrl on macOS.
+ */
+export const getOpenDisposition = (e: IModifierKeys): OpenDisposition => {
+  const ctrlKey = e.ctrlKey || e.metaKey;
+  if (ctrlKey && e.shiftKey) {
+    return 'incognito';
+  }
+  if (ctrlKey) {
+    return 'background';
+  }
+  if (e.shiftKey) {
+    return 'newWindow';
+  }
+  if (e.altKey) {
+    return 'currentTab';
+  }
+  return 'foreground';
+};
+
 export class KeyboardHandler {
-  constructor(
-    private onEnter: () => void | Promise<void>,
-    private onArrowDown: () => void,
-    private onArrowUp: () => void,
-    private onEscape: () => void
-  ) {}
+  constructor(private readonly actions: IKeyboardActions) {}
 
   handleKeyDown = (e: KeyboardEvent): void => {
-    const actions: Record<string, () => void | Promise<void>> = {
-      Enter: () => {
-        e.preventDefault();
-        this.onEnter();
-      },
-      ArrowDown: () => {
-        e.preventDefault();
-        this.onArrowDown();
-      },
-      ArrowUp: () => {
-        e.preventDefault();
-        this.onArrowUp();
-      },
-      Escape: this.onEscape,
-    };
-
-    actions[e.key]?.();
+    if (this.handle(e)) {
+      e.preventDefault();
+    }
   };
+
+  /**
+   * @returns whether the key was used, so its default action is prevented
+   */
+  private handle(e: KeyboardEvent): boolean {
+    const entryAction = this.getEntryAction(e);
+    if (entryAction) {
+      this.actions.entryAction(entryAction);
+      return true;
+    }
+
+    if (e.shiftKey && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      this.actions.extendMarks(e.key === 'ArrowDown' ? 1 : -1);
+      return true;
+    }
+    if (e.code === 'KeyG' && e.altKey && e.shiftKey) {
+      this.actions.openInGroup();
+      return true;
+    }
+
+    switch (e.key) {
+      case ' ':
+        return (
+          !e.ctrlKey &&
+          !e.metaKey &&
+          !e.altKey &&
+          !e.shiftKey &&
+          this.actions.toggleMark()
+        );
+      case 'Enter':
+        this.actions.open(getOpenDisposition(e));
+        return true;
+      case 'ArrowDown':
+        this.actions.move(1);
+        return true;
+      case 'ArrowUp':
+        this.actions.move(-1);
+        return true;
+      case 'Tab':
+        this.actions.move(e.shiftKey ? -1 : 1);
+        return true;
+      case 'PageDown':
+        this.actions.moveByPage(1);
+        return true;
+      case 'PageUp':
+        this.actions.moveByPage(-1);
+        return true;
+      case 'Home':
+        return this.actions.moveToEdge('first');
+      case 'End':
+        return this.actions.moveToEdge('last');
+      case 'F1':
+        this.actions.toggleHelp();
+        return true;
+      case 'Escape':
+        this.actions.escape();
+        return false;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Shortcuts for the selected result. Letter keys are matched by code, as
+   * Alt changes the typed character on some layouts.
+   */
+  private getEntryAction(e: KeyboardEvent): SearchEntryAction | null {
+    if (e.key === 'F2') {
+      return 'rename';
+    }
+    if (e.key === 'Delete' && e.shiftKey) {
+      return 'delete';
+    }
+    if (e.code === 'KeyD' && (e.ctrlKey || e.metaKey)) {
+      return 'bookmark';
+    }
+    if (e.code === 'KeyR' && e.altKey && e.shiftKey) {
+      return 'resetCount';
+    }
+    if (e.code === 'KeyC' && e.altKey) {
+      return e.shiftKey ? 'copyMarkdown' : 'copyUrl';
+    }
+    return null;
+  }
 }
@@ -0,0 +1,78 @@
+import { BulkOpenTarget } from '../types';
+import { validateUrl } from './utils';
+import { UrlNormalization } from '../feature/url-normalization';
+
+/**
+ * Returns the open tabs of all windows keyed by normalized URL. When several
+ * tabs show the same page, the most recently accessed one wins.
+ */
+export const getOpenTabsByUrl = async (): Promise<
+  Map<string, chrome.tabs.Tab>
+> => {
+  const urlNormalization = await UrlNormalization.getInstance();
+  const tabsByUrl = new Map<string, chrome.tabs.Tab>();
+  const tabs = await chrome.tabs.query({});
+  for (const tab of tabs) {
+    const url = validateUrl(tab.url);
+    if (!url || tab.id === undefined) continue;
+
+    const normalizedUrl = urlNormalization.normalize(url);
+    const existing = tabsByUrl.get(normalizedUrl);
+    if (!existing || (tab.lastAccessed ?? 0) > (existing.lastAccessed ?? 0)) {
+      tabsByUrl.set(normalizedUrl, tab);
+    }
+  }
+  return tabsByUrl;
+};
+
+export const findOpenTab = async (
+  rawUrl: string
+): Promise<chrome.tabs.Tab | undefined> => {
+  const url = validateUrl(rawUrl);
+  if (!url) return undefined;
+  const urlNormalization = await UrlNormalization.getInstance();
+  return (await getOpenTabsByUrl()).get(urlNormalization.normalize(url));
+};
+
+export const focusTab = async (tab: chrome.tabs.Tab): Promise<void> => {
+  if (tab.id === undefined) return;
+  await chrome.tabs.update(tab.id, { active: true });
+  await chrome.windows.update(tab.windowId, { focused: true });
+};
+
+/**
+ * Opens several pages together. New tabs open in the current window, and
+ * with 'tabs' the first of them becomes active.
+ * @param groupTitle - title of the tab group created for 'tabGroup'
+ */
+export const openUrls = async (
+  urls: string[],
+  target: BulkOpenTarget,
+  groupTitle = ''
+): Promise<void> => {
+  if (urls.length === 0) return;
+  if (target === 'newWindow' || target === 'incognito') {
+    await chrome.windows.create({
+      url: urls,
+      incognito: target === 'incognito',
+    });
+    return;
+  }
+
+  const tabIds: number[] = [];
+  for (const [index, url] of urls.entries()) {
+    const tab = await chrome.tabs.create({
+      url,
+      active: target !== 'backgroundTabs' && index === 0,
+    });
+    if (tab.id !== undefined) tabIds.push(tab.id);
+  }
+
+  const [firstTabId, ...otherTabIds] = tabIds;
+  if (target === 'tabGroup' && firstTabId !== undefined) {
+    const groupId = await chrome.tabs.group({
+      tabIds: [firstTabId, ...otherTabIds],
+    });
+    await chrome.tabGroups.update(groupId, { title: groupTitle });
+  }
+};
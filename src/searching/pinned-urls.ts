@@ -0,0 +1,54 @@
+import { StorageKeys } from '../utils/constants';
+
+/**
+ * URLs pinned to the top of the home view, in the order they were pinned
+ */
+export class PinnedUrls {
+  private static instance: PinnedUrls;
+  private urls: string[] = [];
+
+  private constructor() {}
+
+  static async getInstance(): Promise<PinnedUrls> {
+    if (!PinnedUrls.instance) {
+      PinnedUrls.instance = new PinnedUrls();
+      await PinnedUrls.instance.loadFromStorage();
+    }
+    return PinnedUrls.instance;
+  }
+
+  async loadFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(StorageKeys.PINNED_URLS);
+      const stored = result[StorageKeys.PINNED_URLS];
+      this.urls = Array.isArray(stored)
+        ? stored.filter((url): url is string => typeof url === 'string')
+        : [];
+    } catch (error) {
+      console.error('Failed to load pinned URLs:', error);
+    }
+  }
+
+  getPinnedUrls(): string[] {
+    return [...this.urls];
+  }
+
+  isPinned(url: string): boolean {
+    return this.urls.includes(url);
+  }
+
+  /**
+   * Pins the URL, or unpins it when it is already pinned
+   * @returns whether the URL is pinned afterwards
+   */
+  async togglePin(url: string): Promise<boolean> {
+    const index = this.urls.indexOf(url);
+    if (index === -1) {
+      this.urls.push(url);
+    } else {
+      this.urls.splice(index, 1);
+    }
+    await chrome.storage.local.set({ [StorageKeys.PINNED_URLS]: this.urls });
+    return index === -1;
+  }
+}
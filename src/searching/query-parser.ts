@@ -0,0 +1,187 @@
+import { ParsedQuery, SearchEntry, SearchSource } from '../types';
+
+const SOURCE_ALIASES: Record<string, SearchSource> = {
+  bookmark: 'bookmarks',
+  bookmarks: 'bookmarks',
+  history: 'history',
+  tab: 'tabs',
+  tabs: 'tabs',
+};
+
+/**
+ * Splits a query on whitespace while keeping quoted phrases together,
+ * including an optional leading `-` or `operator:` before the quote
+ */
+const tokenize = (query: string): string[] =>
+  query.match(/[^\s"]*"[^"]*"?|[^\s]+/g) ?? [];
+
+const unquote = (token: string): string | null => {
+  const match = token.match(/^"([^"]*)"?$/);
+  return match ? (match[1] ?? '').trim() : null;
+};
+
+const parseDate = (value: string): number | null => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return null;
+  }
+  const timestamp = Date.parse(`${value}T00:00:00`);
+  return Number.isNaN(timestamp) ? null : timestamp;
+};
+
+const normalizeSite = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/^https?:\/\//, '')
+    .replace(/^www\./, '')
+    .replace(/\/.*$/, '');
+
+/**
+ * Parses the search box query into free text and filters. Supported operators
+ * are `site:`, `in:bookmarks|history|tabs`, `after:YYYY-MM-DD`, `-term`
+ * negation and quoted exact phrases. Tokens that are not valid operators are
+ * kept as free text.
+ */
+export const parseQuery = (query: string): ParsedQuery => {
+  const parsed: ParsedQuery = {
+    text: '',
+    phrases: [],
+    excludedTerms: [],
+    sites: [],
+    sources: [],
+  };
+  const textTerms: string[] = [];
+
+  for (const token of tokenize(query)) {
+    const phrase = unquote(token);
+    if (phrase !== null) {
+      if (phrase) parsed.phrases.push(phrase);
+      continue;
+    }
+
+    if (token.startsWith('-') && token.length > 1) {
+      const term = unquote(token.substring(1)) ?? token.substring(1);
+      if (term) parsed.excludedTerms.push(term);
+      continue;
+    }
+
+    const separatorIndex = token.indexOf(':');
+    const operator = token.substring(0, separatorIndex).toLowerCase();
+    const value = token.substring(separatorIndex + 1);
+
+    if (operator === 'site') {
+      const site = normalizeSite(value);
+      if (site) {
+        parsed.sites.push(site);
+        continue;
+      }
+    } else if (operator === 'in') {
+      const source = SOURCE_ALIASES[value.toLowerCase()];
+      if (source) {
+        if (!parsed.sources.includes(source)) parsed.sources.push(source);
+        continue;
+      }
+    } else if (operator === 'after') {
+      const after = parseDate(value);
+      if (after !== null) {
+        parsed.after = after;
+        continue;
+      }
+    }
+
+    textTerms.push(token);
+  }
+
+  parsed.text = textTerms.join(' ');
+  return parsed;
+};
+
+export const hasFilters = (query: ParsedQuery): boolean =>
+  query.phrases.length > 0 ||
+  query.excludedTerms.length > 0 ||
+  query.sites.length > 0 ||
+  query.sources.length > 0 ||
+  query.after !== undefined;
+
+const isFromSource = (entry: SearchEntry, source: SearchSource): boolean => {
+  switch (source) {
+    case 'bookmarks':
+      return entry.isBookmark;
+    case 'history':
+      return entry.visitCount > 0;
+    case 'tabs':
+      return entry.isOpenTab;
+  }
+};
+
+const getHostname = (url: string): string => {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * Checks a search entry against the filters of a parsed query. The free text
+ * is left to the fuzzy search.
+ */
+export const matchesFilters = (
+  entry: SearchEntry,
+  query: ParsedQuery
+): boolean => {
+  const haystack =
+    `${entry.title} ${entry.url} ${entry.folderPath ?? ''}`.toLowerCase();
+
+  if (query.phrases.some(phrase => !haystack.includes(phrase.toLowerCase()))) {
+    return false;
+  }
+  if (query.excludedTerms.some(term => haystack.includes(term.toLowerCase()))) {
+    return false;
+  }
+  if (query.sites.length > 0) {
+    const hostname = getHostname(entry.url);
+    if (
+      !query.sites.some(
+        site => hostname === site || hostname.endsWith(`.${site}`)
+      )
+    ) {
+      return false;
+    }
+  }
+  if (
+    query.sources.length > 0 &&
+    !query.sources.some(source => isFromSource(entry, source))
+  ) {
+    return false;
+  }
+  if (query.after !== undefined && entry.lastVisited < query.after) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Checks an open tab against the whole query. Every free text term has to
+ * appear in the title or URL, since fuzzy matches are too loose to act on.
+ */
+export const matchesTab = (
+  tab: chrome.tabs.Tab,
+  query: ParsedQuery
+): boolean => {
+  const entry: SearchEntry = {
+    url: tab.url || '',
+    title: tab.title || '',
+    visitCount: 0,
+    lastVisited: tab.lastAccessed ?? Date.now(),
+    frecency: 0,
+    isBookmark: false,
+    isOpenTab: true,
+  };
+  const haystack = `${entry.title} ${entry.url}`.toLowerCase();
+  return (
+    query.text
+      .toLowerCase()
+      .split(/\s+/)
+      .every(term => haystack.includes(term)) && matchesFilters(entry, query)
+  );
+};
@@ -1,72 +1,134 @@
-import { SearchResult, SearchEntry } from '../types';
+import { IVisitDataBody, SearchResult, SearchEntry } from '../types';
 import {
+  DAY_IN_MS,
+  SEARCH_CLICK_BOOST_HALF_PICKS,
+  SEARCH_FRECENCY_WEIGHT,
   SEARCH_FUSE_RESULT_WEIGHT,
   SEARCH_MAX_CLICK_BOOST,
   SEARCH_MAX_RESULTS,
-  SEARCH_VISIT_COUNT_WEIGHT,
 } from '../utils/constants';
 
+export interface ISearchRankWeights {
+  fuseWeight: number;
+  frecencyWeight: number;
+  maxClickBoost: number;
+}
+
 export class SearchRank {
+  constructor(
+    private readonly weights: ISearchRankWeights = {
+      fuseWeight: SEARCH_FUSE_RESULT_WEIGHT,
+      frecencyWeight: SEARCH_FRECENCY_WEIGHT,
+      maxClickBoost: SEARCH_MAX_CLICK_BOOST,
+    },
+    private readonly maxResults: number = SEARCH_MAX_RESULTS
+  ) {}
+
   /**
-   * Enhance unified search results by combining fuzzy search scores with visit frequency data
+   * Frecency of an entry: every visit counts 1, halved for each half-life
+   * that passed since it happened. Visits without a day bucket (trimmed
+   * buckets, or totals imported before visits were bucketed) are counted as
+   * old as the oldest known visit.
    */
-  rankSearchResults(searchResults: SearchResult[]): SearchEntry[] {
+  static calculateFrecency(
+    visitData: Pick<IVisitDataBody, 'count' | 'lastVisited' | 'visitBuckets'>,
+    halfLifeDays: number,
+    now: number = Date.now()
+  ): number {
+    if (halfLifeDays <= 0) {
+      return visitData.count;
+    }
+    const decay = (timestamp: number) =>
+      Math.pow(0.5, Math.max(0, now - timestamp) / (halfLifeDays * DAY_IN_MS));
+
+    let frecency = 0;
+    let bucketedCount = 0;
+    let oldestVisit = visitData.lastVisited;
+    for (const [day, count] of Object.entries(visitData.visitBuckets ?? {})) {
+      // Place bucketed visits in the middle of their day
+      const visitTime = Math.min(now, (Number(day) + 0.5) * DAY_IN_MS);
+      frecency += count * decay(visitTime);
+      bucketedCount += count;
+      oldestVisit = Math.min(oldestVisit, visitTime);
+    }
+
+    const unbucketedCount = Math.max(0, visitData.count - bucketedCount);
+    return frecency + unbucketedCount * decay(oldestVisit);
+  }
+
+  /**
+   * Enhance unified search results by combining fuzzy search scores with visit frecency
+   * @param selectionCounts - times each URL was picked for the current query
+   */
+  rankSearchResults(
+    searchResults: SearchResult[],
+    selectionCounts: Map<string, number> = new Map()
+  ): SearchEntry[] {
     if (searchResults.length === 0) {
       return [];
     }
 
-    // Find the maximum visit count from search results
-    const maxVisitCount = Math.max(
-      ...searchResults.map(result => result.item.visitCount || 0)
+    // Find the maximum frecency from search results
+    const maxFrecency = Math.max(
+      ...searchResults.map(result => result.item.frecency || 0)
     );
 
     searchResults.forEach(result => {
-      const visitCount = result.item.visitCount || 0;
-
-      const normalizedVisitScore = this.normalizeVisitCount(
-        visitCount,
-        maxVisitCount
-      );
-      result.finalScore = this.calculateFinalScore(
-        result.fuseScore,
-        normalizedVisitScore
+      const normalizedFrecency = this.normalizeFrecency(
+        result.item.frecency || 0,
+        maxFrecency
       );
+      result.finalScore =
+        this.calculateFinalScore(result.fuseScore, normalizedFrecency) -
+        this.calculateClickBoost(selectionCounts.get(result.item.url) || 0);
     });
 
     // Sort by final score (lower is better, like Fuse.js)
     return searchResults
-      .sort((a, b) => (a.finalScore || 1) - (b.finalScore || 1))
+      .sort((a, b) => (a.finalScore ?? 1) - (b.finalScore ?? 1))
       .map(result => result.item)
-      .slice(0, SEARCH_MAX_RESULTS);
+      .slice(0, this.maxResults);
   }
 
   /**
-   * Calculate the final score combining fuzzy search and click count
+   * Calculate the final score combining fuzzy search and frecency
    */
   private calculateFinalScore(
     fuzzyScore: number,
-    normalizedClickScore: number
+    normalizedFrecency: number
   ): number {
     // Fuzzy score is 0-1 where lower is better
-    // Click score is 0-1 where higher is better, so we subtract it to boost frequently clicked items
-    const clickBoost = normalizedClickScore * SEARCH_MAX_CLICK_BOOST;
+    // Frecency is 0-1 where higher is better, so we subtract it to boost recently and frequently visited items
+    return (
+      fuzzyScore * this.weights.fuseWeight -
+      normalizedFrecency * this.weights.frecencyWeight
+    );
+  }
 
+  /**
+   * Boost for URLs picked for the query before. It grows with every pick,
+   * reaching half the maximum after `SEARCH_CLICK_BOOST_HALF_PICKS` picks.
+   * The maximum is capped at half the range final scores span, so a single
+   * pick only settles close calls.
+   */
+  private calculateClickBoost(selectionCount: number): number {
+    const maxBoost = Math.min(
+      this.weights.maxClickBoost,
+      (this.weights.fuseWeight + this.weights.frecencyWeight) / 2
+    );
     return (
-      fuzzyScore * SEARCH_FUSE_RESULT_WEIGHT -
-      clickBoost * SEARCH_VISIT_COUNT_WEIGHT
+      (selectionCount / (selectionCount + SEARCH_CLICK_BOOST_HALF_PICKS)) *
+      maxBoost
     );
   }
 
   /**
-   * Normalize visit count to 0-1 range based on maximum observed visits
+   * Normalize frecency to 0-1 range based on maximum observed frecency
    */
-  private normalizeVisitCount(
-    visitCount: number,
-    maxVisitCount: number
-  ): number {
-    if (maxVisitCount === 0) {
+  private normalizeFrecency(frecency: number, maxFrecency: number): number {
+    if (maxFrecency === 0) {
       return 0;
     }
-    return Math.min(visitCount / maxVisitCount, 1.0);
+    return Math.min(frecency / maxFrecency, 1.0);
   }
 }
@@ -1,29 +1,87 @@
 import { throwIfNull } from '../error_handling';
-import { KeyboardHandler } from './keyboard-handler';
+import { getOpenDisposition, KeyboardHandler } from './keyboard-handler';
 import Fuse from 'fuse.js';
-import { SearchEntry, SearchResult } from '../types';
+import {
+  BulkOpenTarget,
+  IVisitDataBody,
+  OpenDisposition,
+  ParsedQuery,
+  SearchEntry,
+  SearchEntryAction,
+  SearchResult,
+  SearchSection,
+  VisitEntryEdit,
+} from '../types';
 import { SelectionManager } from './selection-manager';
 import { VisitStorageManager } from './visit-storage-manager';
 import { SearchRank } from './search-rank';
-import { addProtocalToUrl } from './utils';
+import { addProtocalToUrl, toMarkdownLink } from './utils';
 import { SearchResultRenderer } from '../ui/search-result-renderer';
+import { ShortcutsHelp } from '../ui/shortcuts-help';
 import {
   errorManager as defaultErrorManager,
   IErrorManager,
 } from '../feature/error-manager';
+import { UrlExclusion } from '../feature/url-exclusion';
+import { findOpenTab, focusTab, getOpenTabsByUrl, openUrls } from './open-tabs';
+import { hasFilters, matchesFilters, parseQuery } from './query-parser';
+import { SettingsManager } from '../feature/settings';
+import { SelectionHistory } from './selection-history';
+import { PinnedUrls } from './pinned-urls';
+import { requestVisitEntryEdit } from './visit-entry-edits';
+import { buildFolderEntries, formatFolderPath } from './bookmark-folders';
+import {
+  COPIED_FEEDBACK_MS,
+  HOME_SECTION_MAX_ENTRIES,
+  SEARCH_FRECENCY_HALF_LIFE_DAYS,
+  SEARCH_MAX_RESULT_TO_DISPLAY,
+} from '../utils/constants';
+
+const FUSE_OPTIONS = {
+  keys: [
+    { name: 'title', weight: 0.7 },
+    { name: 'url', weight: 0.3 },
+    { name: 'folderPath', weight: 0.2 },
+  ],
+  threshold: 0.4, // score >= 0.4 will be ignored
+  distance: 100,
+  minMatchCharLength: 1,
+  includeScore: true,
+  shouldSort: true,
+};
+
+const BULK_OPEN_TARGETS: Record<OpenDisposition, BulkOpenTarget> = {
+  foreground: 'tabs',
+  background: 'backgroundTabs',
+  newWindow: 'newWindow',
+  incognito: 'incognito',
+  currentTab: 'tabs',
+};
 
 export class Searching {
   private readonly searchBox: HTMLInputElement;
   private readonly resultsContainer: HTMLElement;
+  private readonly filtersContainer: HTMLElement;
+  private readonly entryMenu: HTMLElement;
+  private readonly markedBar: HTMLElement;
+  private readonly shortcutsHelp: ShortcutsHelp;
   private readonly keyboardHandler: KeyboardHandler;
   private readonly errorManager: IErrorManager;
 
   private readonly selectionManager = new SelectionManager();
   private visitStorageManager: VisitStorageManager | undefined;
-  private readonly searchScorer = new SearchRank();
+  private urlExclusion: UrlExclusion | undefined;
+  private selectionHistory: SelectionHistory | undefined;
+  private pinnedUrls: PinnedUrls | undefined;
+  private searchScorer = new SearchRank();
+  private frecencyHalfLifeDays = SEARCH_FRECENCY_HALF_LIFE_DAYS;
+  private resultsShown = SEARCH_MAX_RESULT_TO_DISPLAY;
+  private homeSectionMaxEntries = HOME_SECTION_MAX_ENTRIES;
 
+  private searchEntries: SearchEntry[] = [];
   private searchResults: SearchEntry[] = [];
   private fuse: Fuse<SearchEntry> | null = null;
+  private entryMenuIndex = -1;
 
   constructor(errorManager?: IErrorManager) {
     this.errorManager = errorManager || defaultErrorManager;
@@ -31,19 +89,56 @@ export class Searching {
     this.resultsContainer =
       document.getElementById('search-result') ??
       throwIfNull('search-result cannot be null');
+    this.filtersContainer =
+      document.getElementById('query-filters') ??
+      throwIfNull('query-filters cannot be null');
+    this.entryMenu =
+      document.getElementById('search-result-menu') ??
+      throwIfNull('search-result-menu cannot be null');
+    this.markedBar =
+      document.getElementById('marked-results') ??
+      throwIfNull('marked-results cannot be null');
 
-    this.keyboardHandler = new KeyboardHandler(
-      () => this.openSelectedItem(),
-      () => this.moveSelection(1),
-      () => this.moveSelection(-1),
-      () => window.close()
+    this.shortcutsHelp = new ShortcutsHelp(
+      document.getElementById('shortcuts-help') ??
+        throwIfNull('shortcuts-help cannot be null'),
+      document.getElementById('showShortcuts') ??
+        throwIfNull('showShortcuts cannot be null')
     );
 
+    this.keyboardHandler = new KeyboardHandler({
+      open: disposition => this.openSelectedItem(disposition),
+      move: direction => this.moveSelection(direction),
+      moveByPage: direction =>
+        this.selectionManager.moveByPage(direction, this.resultsContainer),
+      moveToEdge: edge =>
+        this.selectionManager.moveToEdge(edge, this.resultsContainer),
+      toggleMark: () => this.toggleMark(this.selectionManager.keyboardIndex),
+      extendMarks: direction => {
+        this.selectionManager.extendMarks(
+          direction,
+          this.searchResults,
+          this.resultsContainer
+        );
+        this.updateMarks();
+      },
+      openInGroup: () => this.openMarked('tabGroup'),
+      entryAction: action =>
+        this.runEntryAction(action, this.selectionManager.keyboardIndex),
+      toggleHelp: () => this.shortcutsHelp.toggle(),
+      escape: () => this.handleEscape(),
+    });
+
     this.init();
   }
 
   private async init(): Promise<void> {
     this.visitStorageManager = await VisitStorageManager.getInstance();
+    this.urlExclusion = await UrlExclusion.getInstance();
+    await this.loadSearchSettings();
+    SettingsManager.onChange(() => this.loadSearchSettings());
+    this.selectionHistory = await SelectionHistory.getInstance();
+    this.pinnedUrls = await PinnedUrls.getInstance();
 
     // Load visit data with error handling - don't let this block the UI
     try {
@@ -59,7 +154,7 @@ export class Searching {
 
     try {
       this.setupSearchInputListener();
-      this.hideResults();
+      this.showHomeView();
       this.searchBox.focus();
     } catch (error) {
       this.errorManager.addError(
@@ -68,6 +163,25 @@ export class Searching {
     }
   }
 
+  private async loadSearchSettings(): Promise<void> {
+    try {
+      const settings = (await SettingsManager.getInstance()).getAll();
+      this.searchScorer = new SearchRank(
+        {
+          fuseWeight: settings.searchFuseWeight,
+          frecencyWeight: settings.searchFrecencyWeight,
+          maxClickBoost: settings.searchMaxClickBoost,
+        },
+        settings.searchMaxResults
+      );
+      this.frecencyHalfLifeDays = settings.frecencyHalfLifeDays;
+      this.resultsShown = settings.searchResultsShown;
+      this.homeSectionMaxEntries = settings.homeSectionMaxEntries;
+    } catch (error) {
+      console.warn('Failed to load search settings, using defaults:', error);
+    }
+  }
+
   private async setupVisitSearch(): Promise<void> {
     if (!this.visitStorageManager) {
       return;
@@ -75,37 +189,43 @@ export class Searching {
     try {
       const visitData = this.visitStorageManager.getAllVisitData();
       const visitSearchEntries: SearchEntry[] = [];
+      const folderBookmarks: { entry: SearchEntry; folderPath: string[] }[] =
+        [];
+      const openTabs = await this.loadOpenTabs();
 
       // Convert visit data to searchable format
       for (const [url, visitInfo] of Object.entries(visitData)) {
-        let title =
-          `${visitInfo.customTitle || ''} | ${visitInfo.title || ''}`.trim();
-        if (title.startsWith('|')) {
-          title = title.substring(1).trim();
+        if (this.urlExclusion?.isUrlExcluded(url, 'search')) {
+          continue;
+        }
+        const entry = this.toSearchEntry(url, visitInfo, openTabs.delete(url));
+        visitSearchEntries.push(entry);
+        if (visitInfo.isBookmark && visitInfo.bookmarkFolder) {
+          folderBookmarks.push({ entry, folderPath: visitInfo.bookmarkFolder });
         }
-        if (title.endsWith('|')) {
-          title = title.substring(0, title.length - 1).trim();
+      }
+      visitSearchEntries.push(...buildFolderEntries(folderBookmarks));
+
+      // Open tabs that were never recorded, e.g. restored after a restart
+      for (const [url, tab] of openTabs) {
+        if (this.urlExclusion?.isUrlExcluded(url, 'search')) {
+          continue;
         }
         visitSearchEntries.push({
           url: url,
-          title: title || url,
-          visitCount: visitInfo.count,
-          lastVisited: visitInfo.lastVisited,
+          title: tab.title || url,
+          visitCount: 0,
+          lastVisited: tab.lastAccessed ?? 0,
+          frecency: 0,
+          isBookmark: false,
+          isOpenTab: true,
         });
       }
 
+      this.searchEntries = visitSearchEntries;
+
       // Setup Fuse for visit data search
-      this.fuse = new Fuse<SearchEntry>(visitSearchEntries, {
-        keys: [
-          { name: 'title', weight: 0.7 },
-          { name: 'url', weight: 0.3 },
-        ],
-        threshold: 0.4, // score >= 0.4 will be ignored
-        distance: 100,
-        minMatchCharLength: 1,
-        includeScore: true,
-        shouldSort: true,
-      });
+      this.fuse = new Fuse<SearchEntry>(visitSearchEntries, FUSE_OPTIONS);
 
       console.log('Loaded visit data for search:', visitSearchEntries.length);
     } catch (error) {
@@ -114,70 +234,207 @@ export class Searching {
     }
   }
 
-  private setupSearchInputListener(): void {
-    this.searchBox.addEventListener('input', () => {
-      const query = this.searchBox.value.trim();
-      if (query) {
-        try {
-          const fuseResults: SearchResult[] = this.fuse!.search(query).map(
-            result => ({
-              item: result.item,
-              fuseScore: result.score || 1,
-            })
-          );
+  private toSearchEntry(
+    url: string,
+    visitInfo: IVisitDataBody,
+    isOpenTab: boolean
+  ): SearchEntry {
+    let title =
+      `${visitInfo.customTitle || ''} | ${visitInfo.title || ''}`.trim();
+    if (title.startsWith('|')) {
+      title = title.substring(1).trim();
+    }
+    if (title.endsWith('|')) {
+      title = title.substring(0, title.length - 1).trim();
+    }
+    return {
+      url: url,
+      title: title || url,
+      visitCount: visitInfo.count,
+      lastVisited: visitInfo.lastVisited,
+      frecency: SearchRank.calculateFrecency(
+        visitInfo,
+        this.frecencyHalfLifeDays
+      ),
+      isBookmark: visitInfo.isBookmark,
+      isOpenTab,
+      ...(visitInfo.isBookmark && visitInfo.bookmarkFolder?.length
+        ? { folderPath: formatFolderPath(visitInfo.bookmarkFolder) }
+        : {}),
+    };
+  }
 
-          this.searchResults = this.searchScorer.rankSearchResults(fuseResults);
-          this.selectionManager.reset();
-          this.render();
-        } catch (error) {
-          console.error('Search failed:', error);
-          // Show error but don't break the UI
-          this.showError('Search temporarily unavailable. Please try again.');
-          this.searchResults = [];
-          this.selectionManager.reset();
-          this.render();
-        }
-      }
-      // else {
-      //   this.showMostVisited();
-      // }
-    });
+  private async loadOpenTabs(): Promise<Map<string, chrome.tabs.Tab>> {
+    try {
+      return await getOpenTabsByUrl();
+    } catch (error) {
+      console.warn('Failed to load open tabs for search:', error);
+      return new Map();
+    }
+  }
+
+  private setupSearchInputListener(): void {
+    this.searchBox.addEventListener('input', () => this.updateResults());
 
     this.searchBox.addEventListener(
       'keydown',
       this.keyboardHandler.handleKeyDown
     );
+
+    this.entryMenu.addEventListener('click', async e => {
+      e.stopPropagation();
+      const action = (e.target as HTMLElement)
+        .closest('[data-entry-action]')
+        ?.getAttribute('data-entry-action') as SearchEntryAction | undefined;
+      const index = this.entryMenuIndex;
+      this.hideEntryMenu();
+      if (action) {
+        await this.runEntryAction(action, index);
+      }
+    });
+    document.addEventListener('click', () => this.hideEntryMenu());
+
+    this.markedBar.addEventListener('click', async e => {
+      const button = (e.target as HTMLElement).closest('button');
+      const target = button?.getAttribute('data-bulk-open');
+      if (target) {
+        await this.openMarked(target as BulkOpenTarget);
+      } else if (button?.hasAttribute('data-clear-marks')) {
+        this.selectionManager.clearMarks();
+        this.updateMarks();
+      }
+    });
   }
 
-  // private showMostVisited(): void {
-  //   if (!this.visitStorageManager) {
-  //     return;
-  //   }
-  //   try {
-  //     const visitData = this.visitStorageManager.getAllVisitData();
-  //     const visitEntries = Object.entries(visitData)
-  //       .filter(([, data]) => data.count > 0)
-  //       .sort(([, a], [, b]) => b.count - a.count)
-  //       .slice(0, 10); // Show top 10 most visited
-  //
-  //     this.searchResults = visitEntries.map(([url, data]) => {
-  //       return {
-  //         id: `visit_${url}`,
-  //         title: data.title || url,
-  //         url: url,
-  //         dateAdded: data.lastVisited,
-  //         index: 0,
-  //         parentId: 'visits',
-  //       } as IBookmarkTreeNode;
-  //     });
-  //
-  //     this.selectionManager.reset();
-  //     this.render();
-  //   } catch (error) {
-  //     console.debug('Failed to show most visited, hiding results:', error);
-  //     this.hideResults();
-  //   }
-  // }
+  private updateResults(): void {
+    this.hideEntryMenu();
+    const query = parseQuery(this.searchBox.value.trim());
+    this.renderFilterChips(query);
+    if (query.text || hasFilters(query)) {
+      try {
+        this.searchResults = this.searchScorer.rankSearchResults(
+          this.search(query),
+          this.selectionHistory?.getSelectionCounts(query.text)
+        );
+        this.selectionManager.reset();
+        this.render();
+      } catch (error) {
+        console.error('Search failed:', error);
+        // Show error but don't break the UI
+        this.showError('Search temporarily unavailable. Please try again.');
+        this.searchResults = [];
+        this.selectionManager.reset();
+        this.render();
+      }
+    } else {
+      this.showHomeView();
+    }
+  }
+
+  /**
+   * Fuzzy searches the free text of the query, or takes every entry when the
+   * query only has filters, and drops the results the filters reject
+   */
+  private search(query: ParsedQuery): SearchResult[] {
+    const candidates: SearchResult[] = query.text
+      ? this.fuse!.search(query.text).map(result => ({
+          item: result.item,
+          fuseScore: result.score ?? 1,
+        }))
+      : this.searchEntries.map(item => ({ item, fuseScore: 0 }));
+
+    return candidates.filter(result => matchesFilters(result.item, query));
+  }
+
+  private renderFilterChips(query: ParsedQuery): void {
+    this.filtersContainer.innerHTML =
+      SearchResultRenderer.renderFilterChips(query);
+  }
+
+  /**
+   * Shows pinned, most visited and recently visited entries while the query
+   * is empty. An entry is only listed in the first section it belongs to.
+   */
+  private showHomeView(): void {
+    try {
+      const sections = this.buildHomeSections();
+      if (sections.length === 0) {
+        this.hideResults();
+        return;
+      }
+
+      this.searchResults = sections.flatMap(section => section.entries);
+      this.selectionManager.reset();
+      this.resultsContainer.innerHTML = SearchResultRenderer.renderSections(
+        sections,
+        this.getPinnedUrlSet()
+      );
+      this.attachEventListeners();
+      this.selectionManager.updateVisualSelection(this.resultsContainer);
+      this.adjustPopupSize();
+    } catch (error) {
+      console.debug('Failed to show home view, hiding results:', error);
+      this.hideResults();
+    }
+  }
+
+  private buildHomeSections(): SearchSection[] {
+    const entriesByUrl = new Map(
+      this.searchEntries.map(entry => [entry.url, entry])
+    );
+    // Pins whose entry is gone, e.g. deleted or stored under a new key, are
+    // still listed so they can be unpinned
+    const pinned = (this.pinnedUrls?.getPinnedUrls() ?? []).map(
+      url =>
+        entriesByUrl.get(url) ?? {
+          url,
+          title: url,
+          visitCount: 0,
+          lastVisited: 0,
+          frecency: 0,
+          isBookmark: false,
+          isOpenTab: false,
+        }
+    );
+
+    const shownUrls = new Set(pinned.map(entry => entry.url));
+    const takeUnshown = (entries: SearchEntry[]) => {
+      const taken = entries
+        .filter(entry => !shownUrls.has(entry.url))
+        .slice(0, this.homeSectionMaxEntries);
+      taken.forEach(entry => shownUrls.add(entry.url));
+      return taken;
+    };
+
+    const visited = this.searchEntries.filter(entry => entry.visitCount > 0);
+    const mostVisited = takeUnshown(
+      [...visited].sort((a, b) => b.visitCount - a.visitCount)
+    );
+    const recentlyVisited = takeUnshown(
+      [...visited].sort((a, b) => b.lastVisited - a.lastVisited)
+    );
+
+    return [
+      { title: 'Pinned', entries: pinned },
+      { title: 'Most visited', entries: mostVisited },
+      { title: 'Recently visited', entries: recentlyVisited },
+    ].filter(section => section.entries.length > 0);
+  }
+
+  private getPinnedUrlSet(): Set<string> {
+    return new Set(this.pinnedUrls?.getPinnedUrls() ?? []);
+  }
+
+  private async togglePin(url: string): Promise<void> {
+    try {
+      await this.pinnedUrls?.togglePin(url);
+      this.updateResults();
+    } catch (error) {
+      this.errorManager.addError(
+        `Failed to update pinned item: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
 
   private hideResults(): void {
     this.resultsContainer.innerHTML = '';
@@ -188,7 +445,9 @@ export class Searching {
 
   private render(): void {
     this.resultsContainer.innerHTML = SearchResultRenderer.renderSearchResults(
-      this.searchResults
+      this.searchResults,
+      this.getPinnedUrlSet(),
+      this.resultsShown
     );
     this.attachEventListeners();
     this.selectionManager.updateVisualSelection(this.resultsContainer);
@@ -199,9 +458,31 @@ export class Searching {
     this.resultsContainer
       .querySelectorAll('.search-result-item')
       .forEach((item, index) => {
-        item.addEventListener('click', async () => {
-          const url = item.getAttribute('data-url');
-          if (url) await this.openBookmark(url);
+        item.addEventListener('click', async e => {
+          const entry = this.searchResults[index];
+          if (entry) {
+            await this.openEntry(entry, getOpenDisposition(e as MouseEvent));
+          }
+        });
+
+        item
+          .querySelector('.search-result-pin')
+          ?.addEventListener('click', async e => {
+            // Pinning must not open the entry
+            e.stopPropagation();
+            const url = item.getAttribute('data-url');
+            if (url) {
+              await this.togglePin(url);
+            }
+          });
+
+        item.addEventListener('contextmenu', e => {
+          e.preventDefault();
+          this.showEntryMenu(
+            index,
+            (e as MouseEvent).clientX,
+            (e as MouseEvent).clientY
+          );
         });
 
         item.addEventListener('mouseenter', () => {
@@ -211,6 +492,297 @@ export class Searching {
       });
   }
 
+  private showEntryMenu(index: number, x: number, y: number): void {
+    const entry = this.searchResults[index];
+    if (!entry) {
+      return;
+    }
+    this.entryMenuIndex = index;
+    this.selectionManager.setIndex(index);
+    this.selectionManager.updateVisualSelection(this.resultsContainer);
+    this.entryMenu.innerHTML = SearchResultRenderer.renderEntryMenu(
+      entry,
+      this.selectionManager.getMarkedUrls().includes(entry.url)
+    );
+    this.entryMenu.classList.add('visible');
+    // Keep the menu inside the popup
+    this.entryMenu.style.left = `${Math.min(x, window.innerWidth - this.entryMenu.offsetWidth)}px`;
+    this.entryMenu.style.top = `${Math.min(y, window.innerHeight - this.entryMenu.offsetHeight)}px`;
+  }
+
+  private hideEntryMenu(): void {
+    this.entryMenu.classList.remove('visible');
+    this.entryMenuIndex = -1;
+  }
+
+  /**
+   * Runs an action on the result at the index. Keyboard shortcuts only act
+   * on a result selected with the keyboard, not on one under the mouse.
+   */
+  private async runEntryAction(
+    action: SearchEntryAction,
+    index: number
+  ): Promise<void> {
+    const entry = this.searchResults[index];
+    // Folder results can only be marked
+    if (!entry || (entry.folderUrls && action !== 'toggleMark')) {
+      return;
+    }
+    switch (action) {
+      case 'toggleMark':
+        this.toggleMark(index);
+        return;
+      case 'copyUrl':
+      case 'copyMarkdown':
+        await this.copyEntry(entry, index, action === 'copyMarkdown');
+        return;
+      case 'rename':
+        this.startRename(index, entry);
+        return;
+      case 'bookmark':
+        await this.bookmarkEntry(entry);
+        return;
+      case 'resetCount':
+        await this.editEntry({ kind: 'resetCount', url: entry.url });
+        return;
+      case 'delete':
+        await this.editEntry({ kind: 'delete', url: entry.url });
+        return;
+    }
+  }
+
+  /**
+   * Swaps the title of the result for an input. Enter saves the title, an
+   * empty title restores the page title, and Escape cancels.
+   */
+  private startRename(index: number, entry: SearchEntry): void {
+    const items = this.resultsContainer.querySelectorAll('.search-result-item');
+    const titleElement = items[index]?.querySelector('.search-result-title');
+    if (!titleElement) {
+      return;
+    }
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'search-result-rename';
+    input.value =
+      this.visitStorageManager?.getEntry(entry.url)?.customTitle ?? entry.title;
+    // Typing in the input must not open the result
+    input.addEventListener('click', e => e.stopPropagation());
+    input.addEventListener('keydown', async e => {
+      e.stopPropagation();
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        await this.editEntry({
+          kind: 'rename',
+          url: entry.url,
+          title: input.value,
+        });
+        this.searchBox.focus();
+      } else if (e.key === 'Escape') {
+        e.preventDefault();
+        this.refreshResults();
+        this.searchBox.focus();
+      }
+    });
+    titleElement.replaceWith(input);
+    input.focus();
+    input.select();
+  }
+
+  private async copyEntry(
+    entry: SearchEntry,
+    index: number,
+    asMarkdown: boolean
+  ): Promise<void> {
+    const url = addProtocalToUrl(entry.url);
+    try {
+      await navigator.clipboard.writeText(
+        asMarkdown ? toMarkdownLink(entry.title, url) : url
+      );
+      this.showFeedback(index, 'Copied');
+    } catch (error) {
+      this.reportError('copy to the clipboard', error);
+    }
+  }
+
+  /**
+   * Briefly labels a result, for actions that keep the popup open
+   */
+  private showFeedback(index: number, label: string): void {
+    const item = this.resultsContainer.querySelectorAll<HTMLElement>(
+      '.search-result-item'
+    )[index];
+    if (!item) {
+      return;
+    }
+    item.dataset['feedback'] = label;
+    setTimeout(() => delete item.dataset['feedback'], COPIED_FEEDBACK_MS);
+  }
+
+  private handleEscape(): void {
+    if (this.shortcutsHelp.isVisible) {
+      this.shortcutsHelp.hide();
+    } else if (this.entryMenuIndex !== -1) {
+      this.hideEntryMenu();
+    } else if (this.selectionManager.getMarkedUrls().length > 0) {
+      this.selectionManager.clearMarks();
+      this.updateMarks();
+    } else {
+      window.close();
+    }
+  }
+
+  /**
+   * @returns false when there is no result at the index
+   */
+  private toggleMark(index: number): boolean {
+    if (!this.searchResults[index]) {
+      return false;
+    }
+    this.selectionManager.toggleMark(index, this.searchResults);
+    this.updateMarks();
+    return true;
+  }
+
+  private updateMarks(): void {
+    this.selectionManager.updateVisualSelection(this.resultsContainer);
+    this.markedBar.innerHTML = SearchResultRenderer.renderMarkedBar(
+      this.selectionManager.getMarkedUrls().length
+    );
+    this.adjustPopupSize();
+  }
+
+  /**
+   * Opens the marked results together, or the selected one when nothing is
+   * marked. Marks may come from earlier queries, so bulk opens are not
+   * recorded as picks for the query.
+   */
+  private async openMarked(target: BulkOpenTarget): Promise<void> {
+    const markedUrls = this.selectionManager.getMarkedUrls();
+    await this.openTogether(
+      markedUrls.length > 0
+        ? markedUrls
+        : [
+            this.selectionManager.getSelectedBookmark(this.searchResults)?.url,
+          ].filter(url => url !== undefined),
+      target
+    );
+  }
+
+  /**
+   * Opens pages together, with folder results replaced by their bookmarks. A
+   * tab group is named after the folder when a single folder is opened, and
+   * after the search text otherwise.
+   */
+  private async openTogether(
+    urls: string[],
+    target: BulkOpenTarget
+  ): Promise<void> {
+    const entriesByUrl = new Map(
+      this.searchEntries.map(entry => [entry.url, entry])
+    );
+    const pageUrls = [
+      ...new Set(
+        urls.flatMap(url => entriesByUrl.get(url)?.folderUrls ?? [url])
+      ),
+    ];
+    if (pageUrls.length === 0) {
+      return;
+    }
+    const [firstUrl] = urls;
+    const singleFolder =
+      urls.length === 1 && firstUrl !== undefined
+        ? entriesByUrl.get(firstUrl)
+        : undefined;
+    try {
+      await openUrls(
+        pageUrls.map(url => addProtocalToUrl(url)),
+        target,
+        singleFolder?.folderUrls
+          ? singleFolder.title
+          : parseQuery(this.searchBox.value.trim()).text
+      );
+      if (target === 'backgroundTabs') {
+        this.selectionManager.clearMarks();
+        this.updateMarks();
+      } else {
+        window.close();
+      }
+    } catch (error) {
+      this.reportError('open the marked results', error);
+    }
+  }
+
+  private async bookmarkEntry(entry: SearchEntry): Promise<void> {
+    if (entry.isBookmark) {
+      return;
+    }
+    try {
+      // The background script flags the entry once the bookmark is synced
+      await chrome.bookmarks.create({
+        title: entry.title,
+        url: addProtocalToUrl(entry.url),
+      });
+      this.searchEntries = this.searchEntries.map(searchEntry =>
+        searchEntry.url === entry.url
+          ? { ...searchEntry, isBookmark: true }
+          : searchEntry
+      );
+      this.fuse?.setCollection(this.searchEntries);
+      this.refreshResults();
+    } catch (error) {
+      this.reportError('add bookmark', error);
+    }
+  }
+
+  /**
+   * Has the background script persist the edit, then applies it to the
+   * loaded entries and the Fuse index so the results update right away
+   */
+  private async editEntry(edit: VisitEntryEdit): Promise<void> {
+    try {
+      await requestVisitEntryEdit(edit);
+      this.visitStorageManager?.applyEntryEdit(edit);
+
+      const visitInfo = this.visitStorageManager?.getEntry(edit.url);
+      this.searchEntries = this.searchEntries.flatMap(entry => {
+        if (entry.url !== edit.url) {
+          return [entry];
+        }
+        return visitInfo
+          ? [this.toSearchEntry(entry.url, visitInfo, entry.isOpenTab)]
+          : [];
+      });
+      this.fuse?.setCollection(this.searchEntries);
+      this.refreshResults();
+    } catch (error) {
+      this.reportError('update entry', error);
+      this.refreshResults();
+    }
+  }
+
+  /**
+   * Runs the current query again, keeping the selected position
+   */
+  private refreshResults(): void {
+    const index = this.selectionManager.currentIndex;
+    const byKeyboard = this.selectionManager.isKeyboardSelection;
+    this.updateResults();
+    this.selectionManager.setIndex(
+      Math.min(index, this.searchResults.length - 1),
+      byKeyboard
+    );
+    this.selectionManager.updateVisualSelection(this.resultsContainer);
+  }
+
+  private reportError(action: string, error: unknown): void {
+    this.errorManager.addError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+    this.errorManager.displayErrors();
+  }
+
   private adjustPopupSize(): void {
     setTimeout(() => {
       const searchHeight = this.searchBox.offsetHeight + 32;
@@ -227,16 +799,63 @@ export class Searching {
     this.selectionManager.moveWithContainer(direction, this.resultsContainer);
   }
 
-  private async openSelectedItem(): Promise<void> {
+  private async openSelectedItem(disposition: OpenDisposition): Promise<void> {
+    if (this.selectionManager.getMarkedUrls().length > 0) {
+      await this.openMarked(BULK_OPEN_TARGETS[disposition]);
+      return;
+    }
     const bookmark = this.selectionManager.getSelectedBookmark(
       this.searchResults
     );
-    if (bookmark?.url) await this.openBookmark(bookmark.url);
+    if (bookmark?.url) {
+      await this.openEntry(bookmark, disposition);
+    }
+  }
+
+  private async openEntry(
+    entry: SearchEntry,
+    disposition: OpenDisposition
+  ): Promise<void> {
+    if (entry.folderUrls) {
+      await this.openTogether([entry.url], BULK_OPEN_TARGETS[disposition]);
+      return;
+    }
+    await this.recordSelection(entry.url);
+    await this.openBookmark(entry.url, disposition);
+  }
+
+  private async recordSelection(url: string): Promise<void> {
+    try {
+      const query = parseQuery(this.searchBox.value.trim());
+      await this.selectionHistory?.recordSelection(query.text, url);
+    } catch (error) {
+      // Learning from picks is best effort, never block opening the page
+      console.warn('Failed to record search selection:', error);
+    }
   }
 
-  private async openBookmark(rawUrl: string): Promise<void> {
+  private async openBookmark(
+    rawUrl: string,
+    disposition: OpenDisposition = 'foreground'
+  ): Promise<void> {
     const url = addProtocalToUrl(rawUrl);
+    if (disposition !== 'foreground') {
+      try {
+        await this.openElsewhere(url, disposition);
+      } catch (error) {
+        this.reportError('open page', error);
+      }
+      return;
+    }
     try {
+      // Switch to the page if it is already open instead of duplicating it
+      const openTab = await findOpenTab(url);
+      if (openTab) {
+        await focusTab(openTab);
+        window.close();
+        return;
+      }
+
       // Open bookmark - visit tracking will be handled automatically by the background script
       await chrome.tabs.create({ url });
       window.close();
@@ -258,6 +877,36 @@ export class Searching {
     }
   }
 
+  /**
+   * Opens a page without switching to an open tab of it. Background tabs
+   * keep the popup open, so several results can be opened in a row.
+   */
+  private async openElsewhere(
+    url: string,
+    disposition: Exclude<OpenDisposition, 'foreground'>
+  ): Promise<void> {
+    switch (disposition) {
+      case 'background':
+        await chrome.tabs.create({ url, active: false });
+        // Ctrl+Enter without a selection opens the first result
+        this.showFeedback(
+          Math.max(this.selectionManager.currentIndex, 0),
+          'Opened'
+        );
+        return;
+      case 'newWindow':
+        await chrome.windows.create({ url });
+        break;
+      case 'incognito':
+        await chrome.windows.create({ url, incognito: true });
+        break;
+      case 'currentTab':
+        await chrome.tabs.update({ url });
+        break;
+    }
+    window.close();
+  }
+
   private showError(message: string): void {
     this.resultsContainer.innerHTML = `<div class="no-results">${message}</div>`;
     this.adjustPopupSize();
@@ -0,0 +1,116 @@
+import { ISearchSelections } from '../types';
+import {
+  SEARCH_SELECTION_MAX_QUERIES,
+  SEARCH_SELECTION_MAX_URLS_PER_QUERY,
+  SEARCH_SELECTION_MIN_PREFIX_LENGTH,
+  StorageKeys,
+} from '../utils/constants';
+
+/**
+ * Remembers which result was picked for a query, so the same pick can be
+ * boosted the next time the query, or the start of it, is typed
+ */
+export class SelectionHistory {
+  private static instance: SelectionHistory;
+  private selections: ISearchSelections = {};
+
+  private constructor() {}
+
+  static async getInstance(): Promise<SelectionHistory> {
+    if (!SelectionHistory.instance) {
+      SelectionHistory.instance = new SelectionHistory();
+      await SelectionHistory.instance.loadFromStorage();
+    }
+    return SelectionHistory.instance;
+  }
+
+  async loadFromStorage(): Promise<void> {
+    try {
+      const result = await chrome.storage.local.get(
+        StorageKeys.SEARCH_SELECTIONS
+      );
+      this.selections =
+        (result[StorageKeys.SEARCH_SELECTIONS] as ISearchSelections) || {};
+    } catch (error) {
+      console.error('Failed to load search selections:', error);
+    }
+  }
+
+  /**
+   * Records the pick under every prefix of the query
+   */
+  async recordSelection(query: string, url: string): Promise<void> {
+    const normalizedQuery = this.normalizeQuery(query);
+    if (normalizedQuery.length < SEARCH_SELECTION_MIN_PREFIX_LENGTH) {
+      return;
+    }
+
+    const now = Date.now();
+    for (
+      let length = SEARCH_SELECTION_MIN_PREFIX_LENGTH;
+      length <= normalizedQuery.length;
+      length++
+    ) {
+      const prefix = normalizedQuery.substring(0, length);
+      if (prefix.endsWith(' ')) continue;
+      const urls = (this.selections[prefix] ??= {});
+      const record = (urls[url] ??= { count: 0, lastSelected: now });
+      record.count++;
+      record.lastSelected = now;
+      this.trimUrls(prefix);
+    }
+    this.trimQueries();
+
+    await chrome.storage.local.set({
+      [StorageKeys.SEARCH_SELECTIONS]: this.selections,
+    });
+  }
+
+  /**
+   * Returns how often each URL was picked for the query. Falls back to the
+   * longest recorded prefix when the query itself was never recorded.
+   */
+  getSelectionCounts(query: string): Map<string, number> {
+    let prefix = this.normalizeQuery(query);
+    while (
+      prefix.length >= SEARCH_SELECTION_MIN_PREFIX_LENGTH &&
+      !this.selections[prefix]
+    ) {
+      prefix = prefix.substring(0, prefix.length - 1).trim();
+    }
+
+    const counts = new Map<string, number>();
+    for (const [url, record] of Object.entries(this.selections[prefix] ?? {})) {
+      counts.set(url, record.count);
+    }
+    return counts;
+  }
+
+  private normalizeQuery(query: string): string {
+    return query.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+
+  private trimUrls(prefix: string): void {
+    const urls = this.selections[prefix];
+    if (!urls) return;
+    const entries = Object.entries(urls);
+    if (entries.length <= SEARCH_SELECTION_MAX_URLS_PER_QUERY) return;
+
+    entries
+      .sort(([, a], [, b]) => a.lastSelected - b.lastSelected)
+      .slice(0, entries.length - SEARCH_SELECTION_MAX_URLS_PER_QUERY)
+      .forEach(([url]) => delete urls[url]);
+  }
+
+  private trimQueries(): void {
+    const queries = Object.entries(this.selections);
+    if (queries.length <= SEARCH_SELECTION_MAX_QUERIES) return;
+
+    const lastSelected = (urls: ISearchSelections[string]) =>
+      Math.max(...Object.values(urls).map(record => record.lastSelected));
+    queries
+      .sort(([, a], [, b]) => lastSelected(a) - lastSelected(b))
+      .slice(0, queries.length - SEARCH_SELECTION_MAX_QUERIES)
+      .forEach(([query]) => delete this.selections[query]);
+  }
+}
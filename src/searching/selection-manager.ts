@@ -1,18 +1,85 @@
 import { SearchEntry } from '../types';
+import { SELECTION_PAGE_SIZE } from '../utils/constants';
 
 export class SelectionManager {
   private selectedIndex = -1;
+  // Hovering selects a result too, but shortcuts only act on keyboard picks
+  private selectedByKeyboard = false;
+  // Marked results are kept by URL, so marks survive changing the query
+  private readonly markedUrls = new Set<string>();
 
   get currentIndex(): number {
     return this.selectedIndex;
   }
 
+  /**
+   * Index of the result selected with the keyboard, or -1 when the selection
+   * was made with the mouse
+   */
+  get keyboardIndex(): number {
+    return this.selectedByKeyboard ? this.selectedIndex : -1;
+  }
+
+  get isKeyboardSelection(): boolean {
+    return this.selectedByKeyboard;
+  }
+
+  /**
+   * Resets the selected position. Marks are kept.
+   */
   reset(): void {
     this.selectedIndex = -1;
+    this.selectedByKeyboard = false;
+  }
+
+  /**
+   * Marked URLs, in the order they were marked
+   */
+  getMarkedUrls(): string[] {
+    return [...this.markedUrls];
+  }
+
+  clearMarks(): void {
+    this.markedUrls.clear();
+  }
+
+  /**
+   * Marks or unmarks the result at the index
+   */
+  toggleMark(index: number, searchResults: SearchEntry[]): void {
+    const url = searchResults[index]?.url;
+    if (url === undefined) {
+      return;
+    }
+    if (!this.markedUrls.delete(url)) {
+      this.markedUrls.add(url);
+    }
+  }
+
+  /**
+   * Marks the selected result and the one the selection moves to, the way
+   * Shift+Arrow extends a selection in lists
+   */
+  extendMarks(
+    direction: number,
+    searchResults: SearchEntry[],
+    container: HTMLElement
+  ): void {
+    const current = searchResults[this.selectedIndex];
+    if (current) {
+      this.markedUrls.add(current.url);
+    }
+    this.moveWithContainer(direction, container);
+    const next = searchResults[this.selectedIndex];
+    if (next) {
+      this.markedUrls.add(next.url);
+    }
+    this.updateVisualSelection(container);
   }
 
-  setIndex(index: number): void {
+  setIndex(index: number, byKeyboard = false): void {
     this.selectedIndex = index;
+    this.selectedByKeyboard = byKeyboard;
   }
 
   getSelectedBookmark(searchResults: SearchEntry[]): SearchEntry | null {
@@ -32,6 +99,10 @@ export class SelectionManager {
     items.forEach((item, index) => {
       const isSelected = index === this.selectedIndex;
       item.classList.toggle('selected', isSelected);
+      item.classList.toggle(
+        'marked',
+        this.markedUrls.has(item.getAttribute('data-url') ?? '')
+      );
 
       // Scroll selected item into view
       if (isSelected) {
@@ -53,9 +124,10 @@ export class SelectionManager {
     );
 
     if (itemCount === 0) {
-      this.selectedIndex = -1;
+      this.reset();
       return;
     }
+    this.selectedByKeyboard = true;
 
     // Initialize selection if none exists
     if (this.selectedIndex === -1) {
@@ -76,4 +148,36 @@ export class SelectionManager {
     this.selectedIndex = newIndex;
     this.updateVisualSelection(container);
   }
+
+  /**
+   * Moves the selection by a page without wrapping around
+   */
+  moveByPage(direction: number, container: HTMLElement): void {
+    const itemCount = container.querySelectorAll('.search-result-item').length;
+    if (itemCount === 0) {
+      this.reset();
+      return;
+    }
+    this.selectedByKeyboard = true;
+    const newIndex =
+      Math.max(this.selectedIndex, 0) + direction * SELECTION_PAGE_SIZE;
+    this.selectedIndex = Math.min(Math.max(newIndex, 0), itemCount - 1);
+    this.updateVisualSelection(container);
+  }
+
+  /**
+   * Selects the first or last result
+   * @returns false when nothing is selected yet, so Home and End keep moving
+   * the caret of the search box
+   */
+  moveToEdge(edge: 'first' | 'last', container: HTMLElement): boolean {
+    const itemCount = container.querySelectorAll('.search-result-item').length;
+    if (this.selectedIndex === -1 || itemCount === 0) {
+      return false;
+    }
+    this.selectedIndex = edge === 'first' ? 0 : itemCount - 1;
+    this.selectedByKeyboard = true;
+    this.updateVisualSelection(container);
+    return true;
+  }
 }
@@ -42,6 +42,13 @@ export const addProtocalToUrl = (url: string) =>
     ? url
     : `https://${url}`;
 
+/**
+ * Formats a Markdown link, escaping brackets in the title and percent-encoding
+ * parentheses in the URL
+ */
+export const toMarkdownLink = (title: string, url: string): string =>
+  `[${title.replace(/([[\]\\])/g, '\\$1')}](${url.replace(/\(/g, '%28').replace(/\)/g, '%29')})`;
+
 export const validateUrl = (url: string | undefined) => {
   if (url === undefined) {
     return null;
@@ -56,6 +63,22 @@ export const validateUrl = (url: string | undefined) => {
   }
 };
 
-export const normalizeUrl = (url: URL) => {
-  return url.origin + url.pathname;
+/**
+ * Reduces a URL to the key its visits are stored under: origin and path,
+ * plus the query parameters to keep, sorted by name
+ */
+export const normalizeUrl = (
+  url: URL,
+  keepParam: (name: string) => boolean = () => false
+) => {
+  const params: [string, string][] = [];
+  url.searchParams.forEach((value, name) => {
+    if (keepParam(name)) {
+      params.push([name, value]);
+    }
+  });
+  const search = new URLSearchParams(
+    params.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+  ).toString();
+  return url.origin + url.pathname + (search ? `?${search}` : '');
 };
@@ -0,0 +1,26 @@
+import {
+  IVisitEntryEditMessage,
+  IVisitEntryEditResponse,
+  VisitEntryEdit,
+} from '../types';
+import { EDIT_VISIT_ENTRY_MESSAGE } from '../utils/constants';
+
+/**
+ * Asks the background script to apply an edit to the stored visit data. The
+ * background keeps its own copy of the visit data, so writing the storage
+ * from the popup would be undone by the next recorded visit.
+ * @throws if the edit was not applied
+ */
+export async function requestVisitEntryEdit(
+  edit: VisitEntryEdit
+): Promise<void> {
+  const message: IVisitEntryEditMessage = {
+    type: EDIT_VISIT_ENTRY_MESSAGE,
+    edit,
+  };
+  const response = (await chrome.runtime.sendMessage(message)) as
+    IVisitEntryEditResponse | undefined;
+  if (!response?.ok) {
+    throw new Error(response?.error ?? 'The background script did not reply');
+  }
+}
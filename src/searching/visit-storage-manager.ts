@@ -1,28 +1,48 @@
-import { IVisitData } from '../types';
-import { StorageKeys } from '../utils/constants';
-import { normalizeUrl, validateUrl } from './utils';
+import {
+  IBookmarkInfo,
+  IVisitData,
+  IVisitDataBody,
+  VisitEntryEdit,
+} from '../types';
+import { DAY_IN_MS, MAX_VISIT_BUCKETS, StorageKeys } from '../utils/constants';
+import { validateUrl } from './utils';
+import { UrlNormalization } from '../feature/url-normalization';
 
 export class VisitStorageManager {
   private visitData: IVisitData = {};
+  // Bookmarked URLs whose entry the user deleted, so bookmark syncs skip them
+  private deletedBookmarks = new Set<string>();
   private static instance: VisitStorageManager;
 
-  private constructor() {}
+  private constructor(private readonly urlNormalization: UrlNormalization) {}
 
   static async getInstance(): Promise<VisitStorageManager> {
     if (!VisitStorageManager.instance) {
-      VisitStorageManager.instance = new VisitStorageManager();
+      VisitStorageManager.instance = new VisitStorageManager(
+        await UrlNormalization.getInstance()
+      );
       await VisitStorageManager.instance.loadVisitDataIfAvailable();
     }
     return VisitStorageManager.instance;
   }
 
   async loadVisitDataIfAvailable(): Promise<void> {
-    const result = await chrome.storage.local.get([StorageKeys.VISIT_DATA]);
+    const result = await chrome.storage.local.get([
+      StorageKeys.VISIT_DATA,
+      StorageKeys.DELETED_BOOKMARKS,
+    ]);
 
     const visitData = result[StorageKeys.VISIT_DATA] as IVisitData;
+    const deletedBookmarks = result[StorageKeys.DELETED_BOOKMARKS] as unknown;
+    this.deletedBookmarks = new Set(
+      Array.isArray(deletedBookmarks)
+        ? deletedBookmarks.filter(url => typeof url === 'string')
+        : []
+    );
 
     if (visitData) {
       this.visitData = visitData;
+      this.migrateBookmarkFlags();
     }
   }
 
@@ -37,12 +57,21 @@ export class VisitStorageManager {
             this.visitData[url].lastVisited,
             data.lastVisited
           );
-          if (data.customTitle) {
+          if (data.customTitle && !this.visitData[url].titleEdited) {
             this.visitData[url].customTitle = data.customTitle;
           }
+          if (data.isBookmark) {
+            this.visitData[url].isBookmark = true;
+          }
+          if (data.bookmarkFolder) {
+            this.visitData[url].bookmarkFolder = data.bookmarkFolder;
+          }
           if (data.title) {
             this.visitData[url].title = data.title;
           }
+          if (data.visitBuckets) {
+            this.addToVisitBuckets(this.visitData[url], data.visitBuckets);
+          }
         }
       }
     }
@@ -57,6 +86,7 @@ export class VisitStorageManager {
     try {
       await chrome.storage.local.set({
         [StorageKeys.VISIT_DATA]: this.visitData,
+        [StorageKeys.DELETED_BOOKMARKS]: [...this.deletedBookmarks],
       });
     } catch (error) {
       if (
@@ -109,6 +139,7 @@ export class VisitStorageManager {
       rawUrl: url,
       title: title,
       lastVisitTime: Date.now(),
+      visitTimes: [Date.now()],
     });
 
     if (wasAdded) {
@@ -124,12 +155,15 @@ export class VisitStorageManager {
       lastVisitTime?: number | undefined;
       title?: string | undefined;
       customTitle?: string | undefined;
+      isBookmark?: boolean | undefined;
+      bookmarkFolder?: string[] | undefined;
+      visitTimes?: number[] | undefined; // Individual visits, if known
     }
   ) {
     const url = validateUrl(o.rawUrl);
     if (!url) return false;
 
-    const normalizedUrl = normalizeUrl(url);
+    const normalizedUrl = this.urlNormalization.normalize(url);
 
     const visitCount = o.visitCount || 1;
     const lastVisited = o.lastVisitTime || 0;
@@ -144,8 +178,23 @@ export class VisitStorageManager {
       map[normalizedUrl] = {
         count: visitCount,
         lastVisited: lastVisited,
+        isBookmark: false,
       };
     }
+    if (o.isBookmark) {
+      map[normalizedUrl].isBookmark = true;
+    }
+    if (o.bookmarkFolder) {
+      map[normalizedUrl].bookmarkFolder = o.bookmarkFolder;
+    }
+    if (o.visitTimes && o.visitTimes.length > 0) {
+      const buckets: { [day: string]: number } = {};
+      for (const visitTime of o.visitTimes) {
+        const day = String(Math.floor(visitTime / DAY_IN_MS));
+        buckets[day] = (buckets[day] ?? 0) + 1;
+      }
+      this.addToVisitBuckets(map[normalizedUrl], buckets);
+    }
     if (o.customTitle) {
       map[normalizedUrl].customTitle = o.customTitle;
     }
@@ -155,6 +204,301 @@ export class VisitStorageManager {
     return true;
   }
 
+  /**
+   * Moves entries whose key changed under the current normalization rules,
+   * e.g. after a query parameter stopped being significant, merging them with
+   * entries already under the new key
+   * @returns the number of moved entries
+   */
+  rekeyVisitData(): number {
+    let movedCount = 0;
+    for (const [key, entry] of Object.entries(this.visitData)) {
+      const url = validateUrl(key);
+      const newKey = url ? this.urlNormalization.normalize(url) : key;
+      if (newKey === key) {
+        continue;
+      }
+      delete this.visitData[key];
+      this.mergeEntry(this.visitData, newKey, entry);
+      movedCount++;
+    }
+    return movedCount;
+  }
+
+  /**
+   * Moves visits of an entry to the keys of pages whose query parameters
+   * became significant, using counts rebuilt from the browser history. Pages
+   * already stored under their own key only get the older visits the history
+   * knows more of. Visits the history can't tell apart, e.g. older than its
+   * window, stay with the original entry.
+   * @param rebuilt - entries keyed by the current normalization
+   * @returns the number of moved visits
+   */
+  splitVisitData(key: string, rebuilt: IVisitData): number {
+    const entry = this.visitData[key];
+    if (!entry) {
+      return 0;
+    }
+    let movedCount = 0;
+    for (const [newKey, newEntry] of Object.entries(rebuilt)) {
+      if (newKey === key) {
+        continue;
+      }
+      const count = Math.min(
+        entry.count - movedCount,
+        newEntry.count - (this.visitData[newKey]?.count ?? 0)
+      );
+      if (count <= 0) {
+        continue;
+      }
+      this.mergeEntry(this.visitData, newKey, { ...newEntry, count });
+      movedCount += count;
+    }
+    if (movedCount === 0) {
+      return 0;
+    }
+
+    entry.count -= movedCount;
+    if (entry.count === 0 && !entry.isBookmark) {
+      delete this.visitData[key];
+    } else {
+      this.trimVisitBuckets(entry);
+    }
+    return movedCount;
+  }
+
+  private mergeEntry(map: IVisitData, key: string, entry: IVisitDataBody) {
+    const existing = map[key];
+    if (!existing) {
+      map[key] = entry;
+      return;
+    }
+    existing.count += entry.count;
+    existing.lastVisited = Math.max(existing.lastVisited, entry.lastVisited);
+    existing.isBookmark ||= entry.isBookmark;
+    if (entry.bookmarkFolder && !existing.bookmarkFolder) {
+      existing.bookmarkFolder = entry.bookmarkFolder;
+    }
+    if (entry.customTitle && (entry.titleEdited || !existing.titleEdited)) {
+      existing.customTitle = entry.customTitle;
+      if (entry.titleEdited) {
+        existing.titleEdited = true;
+      }
+    }
+    if (
+      entry.title &&
+      (!existing.title || entry.lastVisited >= existing.lastVisited)
+    ) {
+      existing.title = entry.title;
+    }
+    if (entry.visitBuckets) {
+      this.addToVisitBuckets(existing, entry.visitBuckets);
+    }
+  }
+
+  /**
+   * Removes every entry whose normalized URL matches the predicate
+   * @returns the number of removed entries
+   */
+  removeVisitData(predicate: (normalizedUrl: string) => boolean): number {
+    let removedCount = 0;
+    for (const url of Object.keys(this.visitData)) {
+      if (predicate(url)) {
+        delete this.visitData[url];
+        removedCount++;
+      }
+    }
+    return removedCount;
+  }
+
+  /**
+   * Applies a change the user made to an entry from the popup
+   * @returns whether the entry exists
+   */
+  applyEntryEdit(edit: VisitEntryEdit): boolean {
+    const entry = this.visitData[edit.url];
+    if (!entry) {
+      return false;
+    }
+
+    switch (edit.kind) {
+      case 'rename': {
+        const title = edit.title.trim();
+        if (title) {
+          entry.customTitle = title;
+          entry.titleEdited = true;
+        } else {
+          // Bookmarked entries get their bookmark title back on the next sync
+          delete entry.customTitle;
+          delete entry.titleEdited;
+        }
+        break;
+      }
+      case 'resetCount':
+        entry.count = 0;
+        delete entry.visitBuckets;
+        break;
+      case 'delete':
+        // Without this the bookmark would bring the entry back on the next sync
+        if (entry.isBookmark) {
+          this.deletedBookmarks.add(edit.url);
+        }
+        delete this.visitData[edit.url];
+        break;
+    }
+    return true;
+  }
+
+  /**
+   * Applies the deletion of a URL's history to its entry
+   * @param remaining - visits of the URL still left in the browser history
+   * @param keepBookmarks - keep bookmark entries with a reset visit count
+   * @returns whether the entry was changed
+   */
+  applyHistoryRemoval(
+    normalizedUrl: string,
+    remaining: { count: number; lastVisited: number } | null,
+    keepBookmarks: boolean
+  ): boolean {
+    const entry = this.visitData[normalizedUrl];
+    if (!entry) {
+      return false;
+    }
+
+    if (remaining && remaining.count > 0) {
+      entry.count = Math.min(entry.count, remaining.count);
+      entry.lastVisited = remaining.lastVisited;
+      this.trimVisitBuckets(entry);
+    } else if (keepBookmarks && entry.isBookmark) {
+      entry.count = 0;
+      entry.lastVisited = 0;
+      delete entry.visitBuckets;
+    } else {
+      delete this.visitData[normalizedUrl];
+    }
+    return true;
+  }
+
+  /**
+   * Applies the current set of bookmarks: flags bookmarked entries and takes
+   * over their bookmark titles and folders, and unflags entries whose
+   * bookmarks are gone.
+   * Bookmark-only entries that were never visited are removed with their
+   * bookmark. Titles edited by the user are kept. Bookmarks whose entry the
+   * user deleted get no new entry until they are visited or bookmarked again.
+   * @param bookmarks - bookmarks keyed by normalized URL
+   * @returns the number of changed entries
+   */
+  applyBookmarks(bookmarks: Map<string, IBookmarkInfo>): number {
+    let changedCount = 0;
+
+    for (const [url, entry] of Object.entries(this.visitData)) {
+      if (entry.isBookmark && !bookmarks.has(url)) {
+        if (entry.count === 0) {
+          delete this.visitData[url];
+        } else {
+          entry.isBookmark = false;
+          delete entry.bookmarkFolder;
+          if (!entry.titleEdited) {
+            delete entry.customTitle;
+          }
+        }
+        changedCount++;
+      }
+    }
+
+    for (const url of this.deletedBookmarks) {
+      if (!bookmarks.has(url) || this.visitData[url]) {
+        this.deletedBookmarks.delete(url);
+      }
+    }
+
+    for (const [url, bookmark] of bookmarks) {
+      const entry = this.visitData[url];
+      if (!entry) {
+        if (this.deletedBookmarks.has(url)) {
+          continue;
+        }
+        this.visitData[url] = {
+          count: 0,
+          lastVisited: bookmark.lastVisited,
+          customTitle: bookmark.title,
+          isBookmark: true,
+          bookmarkFolder: bookmark.folderPath,
+        };
+        changedCount++;
+      } else if (
+        !entry.isBookmark ||
+        (!entry.titleEdited && entry.customTitle !== bookmark.title) ||
+        entry.bookmarkFolder?.join('/') !== bookmark.folderPath.join('/')
+      ) {
+        entry.isBookmark = true;
+        entry.bookmarkFolder = bookmark.folderPath;
+        if (!entry.titleEdited) {
+          entry.customTitle = bookmark.title;
+        }
+        changedCount++;
+      }
+    }
+
+    return changedCount;
+  }
+
+  private addToVisitBuckets(
+    entry: IVisitDataBody,
+    buckets: { [day: string]: number }
+  ): void {
+    entry.visitBuckets ??= {};
+    for (const [day, count] of Object.entries(buckets)) {
+      entry.visitBuckets[day] = (entry.visitBuckets[day] ?? 0) + count;
+    }
+    this.trimVisitBuckets(entry);
+  }
+
+  /**
+   * Keeps the most recent buckets, at most `MAX_VISIT_BUCKETS` of them and no
+   * more visits than the entry's count. Visits of dropped buckets stay in the
+   * count and are ranked as older than the remaining buckets.
+   */
+  private trimVisitBuckets(entry: IVisitDataBody): void {
+    if (!entry.visitBuckets) {
+      return;
+    }
+    const days = Object.keys(entry.visitBuckets).sort(
+      (a, b) => Number(a) - Number(b)
+    );
+    let bucketedCount = days.reduce(
+      (sum, day) => sum + (entry.visitBuckets?.[day] ?? 0),
+      0
+    );
+    for (const day of days) {
+      if (
+        Object.keys(entry.visitBuckets).length <= MAX_VISIT_BUCKETS &&
+        bucketedCount <= entry.count
+      ) {
+        break;
+      }
+      bucketedCount -= entry.visitBuckets[day] ?? 0;
+      delete entry.visitBuckets[day];
+    }
+  }
+
+  /**
+   * Visit data saved before bookmarks were tracked explicitly only got a
+   * custom title from the bookmark import
+   */
+  private migrateBookmarkFlags(): void {
+    for (const entry of Object.values(this.visitData)) {
+      if (entry.isBookmark === undefined) {
+        entry.isBookmark = !!entry.customTitle;
+      }
+    }
+  }
+
+  hasVisitData(): boolean {
+    return Object.keys(this.visitData).length > 0;
+  }
+
   /**
    * Gets the visit count for a specific URL
    */
@@ -162,6 +506,10 @@ export class VisitStorageManager {
     return this.visitData[url]?.count || 0;
   }
 
+  getEntry(url: string): IVisitDataBody | undefined {
+    return this.visitData[url];
+  }
+
   /**
    * Returns all visit data
    */
@@ -1,24 +1,355 @@
-import { IBookmarkTreeNode, IVisitData } from './types';
 import {
-  MAX_BROWSER_HISTORY_AGE_IN_DAYS,
+  IBookmarkInfo,
+  IFolderBookmark,
+  IHistoryRemoval,
+  IVisitData,
+} from './types';
+import {
+  DAY_IN_MS,
+  HISTORY_VISITS_BATCH_SIZE,
   MAX_BROWSER_HISTORY_COUNT,
   StorageKeys,
 } from './utils/constants';
-import { timeAsync, timeSync } from './utils/performance';
+import { timeAsync } from './utils/performance';
 import { VisitStorageManager } from './searching/visit-storage-manager';
+import { UrlExclusion } from './feature/url-exclusion';
+import { normalizeUrl, validateUrl } from './searching/utils';
+import { UrlNormalization } from './feature/url-normalization';
+import { SettingsManager } from './feature/settings';
+
+// Bumped when the visit data keys change, e.g. by keeping query parameters
+const VISIT_DATA_KEY_VERSION = 1;
 
 export class StorageController {
-  async initialize() {
-    await this.cleanUpStorage();
+  /**
+   * Imports browser history into the visit data. The first run imports the
+   * full history window plus bookmarks; later runs only import visits newer
+   * than the stored high-water mark, so accumulated visit counts and custom
+   * titles are kept. The background script moves the mark forward as it
+   * records visits, so they are not imported again.
+   */
+  async sync() {
+    const syncStartTime = Date.now();
+    const visitStorageManager = await VisitStorageManager.getInstance();
+    const urlExclusion = await UrlExclusion.getInstance();
+    const highWaterMark = await this.getHighWaterMark();
+
+    if (highWaterMark === null) {
+      if (visitStorageManager.hasVisitData()) {
+        // Visit data created before incremental sync existed was already
+        // imported in full, so adopt it as the baseline
+        console.log('Existing visit data found, starting incremental sync');
+      } else {
+        await this.importAll(visitStorageManager, urlExclusion);
+      }
+    } else {
+      const historyDataMap = await timeAsync(
+        'fn:loadHistorySince',
+        { highWaterMark },
+        async () =>
+          this.loadHistorySince(
+            visitStorageManager,
+            urlExclusion,
+            highWaterMark
+          )
+      );
+      await timeAsync('fn:aggregateDataAndSave', {}, async () => {
+        await visitStorageManager.aggregateDataAndSave(historyDataMap);
+      });
+      await timeAsync('fn:syncBookmarks', {}, async () => this.syncBookmarks());
+    }
+
+    // Visits recorded during the sync may have moved the mark further
+    await chrome.storage.local.set({
+      [StorageKeys.HISTORY_SYNC_TIME]: Math.max(
+        syncStartTime,
+        (await this.getHighWaterMark()) ?? 0
+      ),
+    });
+  }
+
+  /**
+   * Moves the high-water mark forward for a visit the background script
+   * recorded, so the next sync does not import it again. Does nothing before
+   * the first sync, which has to import everything.
+   */
+  async advanceHighWaterMark(timestamp: number) {
+    const highWaterMark = await this.getHighWaterMark();
+    if (highWaterMark !== null && timestamp > highWaterMark) {
+      await chrome.storage.local.set({
+        [StorageKeys.HISTORY_SYNC_TIME]: timestamp,
+      });
+    }
+  }
+
+  /**
+   * Reconciles the visit data with URLs deleted from the browser history.
+   * Entries are removed, or their counts reduced to the visits left in
+   * history when other URLs still map to the same normalized URL.
+   */
+  async handleVisitRemoved(removed: IHistoryRemoval) {
+    const visitStorageManager = await VisitStorageManager.getInstance();
+    const urlNormalization = await UrlNormalization.getInstance();
+    const keepBookmarks = (await SettingsManager.getInstance()).get(
+      'keepBookmarksOnHistoryRemoval'
+    );
+    let changedCount = 0;
+
+    if (removed.allHistory) {
+      for (const url of Object.keys(visitStorageManager.getAllVisitData())) {
+        if (visitStorageManager.applyHistoryRemoval(url, null, keepBookmarks)) {
+          changedCount++;
+        }
+      }
+    } else {
+      const removedUrlsByHost = new Map<string, Set<string>>();
+      for (const rawUrl of removed.urls ?? []) {
+        const url = validateUrl(rawUrl);
+        if (url) {
+          removedUrlsByHost.set(
+            url.hostname,
+            (removedUrlsByHost.get(url.hostname) ?? new Set()).add(
+              urlNormalization.normalize(url)
+            )
+          );
+        }
+      }
+      for (const [hostname, removedUrls] of removedUrlsByHost) {
+        const remainingVisits = await this.getRemainingVisits(
+          urlNormalization,
+          hostname,
+          removedUrls
+        );
+        for (const url of removedUrls) {
+          if (
+            visitStorageManager.applyHistoryRemoval(
+              url,
+              remainingVisits.get(url) ?? null,
+              keepBookmarks
+            )
+          ) {
+            changedCount++;
+          }
+        }
+      }
+    }
+
+    if (changedCount > 0) {
+      await visitStorageManager.saveVisitData();
+      console.log(`Reconciled ${changedCount} entries deleted from history`);
+    }
+  }
 
+  /**
+   * Sums the visits still in the browser history for every URL of a host that
+   * maps to one of the given normalized URLs
+   */
+  private async getRemainingVisits(
+    urlNormalization: UrlNormalization,
+    hostname: string,
+    normalizedUrls: Set<string>
+  ) {
+    const historyItems = await chrome.history.search({
+      text: hostname,
+      startTime: 0,
+      maxResults: MAX_BROWSER_HISTORY_COUNT,
+    });
+
+    const remainingVisits = new Map<
+      string,
+      { count: number; lastVisited: number }
+    >();
+    for (const item of historyItems) {
+      const itemUrl = validateUrl(item.url);
+      if (!itemUrl || itemUrl.hostname !== hostname) {
+        continue;
+      }
+      const normalizedUrl = urlNormalization.normalize(itemUrl);
+      if (!normalizedUrls.has(normalizedUrl)) {
+        continue;
+      }
+      const remaining = remainingVisits.get(normalizedUrl) ?? {
+        count: 0,
+        lastVisited: 0,
+      };
+      remaining.count += item.visitCount ?? 0;
+      remaining.lastVisited = Math.max(
+        remaining.lastVisited,
+        item.lastVisitTime ?? 0
+      );
+      remainingVisits.set(normalizedUrl, remaining);
+    }
+    return remainingVisits;
+  }
+
+  /**
+   * Brings bookmark flags and titles in the visit data in line with the
+   * current bookmark tree
+   */
+  async syncBookmarks() {
+    const visitStorageManager = await VisitStorageManager.getInstance();
+    const urlExclusion = await UrlExclusion.getInstance();
+    const urlNormalization = await UrlNormalization.getInstance();
+    const bookmarkTree = await chrome.bookmarks.getTree();
+
+    const bookmarks = new Map<string, IBookmarkInfo>();
+    for (const { bookmark, folderPath } of this.flattenBookmarks(
+      bookmarkTree
+    )) {
+      const url = validateUrl(bookmark.url);
+      if (!url || urlExclusion.isUrlExcluded(url.href, 'import')) {
+        continue;
+      }
+      const key = urlNormalization.normalize(url);
+      // A page bookmarked twice keeps the folder it was first found in
+      if (!bookmarks.has(key)) {
+        bookmarks.set(key, {
+          title: bookmark.title,
+          lastVisited: bookmark.dateLastUsed ?? bookmark.dateAdded ?? 0,
+          folderPath,
+        });
+      }
+    }
+
+    const changedCount = visitStorageManager.applyBookmarks(bookmarks);
+    if (changedCount > 0) {
+      await visitStorageManager.saveVisitData();
+      console.log(`Updated ${changedCount} entries from bookmark changes`);
+    }
+  }
+
+  /**
+   * Splits visit data stored by versions that dropped every query parameter.
+   * Runs once, before the first sync of the new version imports visits under
+   * the new keys.
+   */
+  async migrateVisitDataKeys() {
+    const result = await chrome.storage.local.get(
+      StorageKeys.VISIT_DATA_KEY_VERSION
+    );
+    if (result[StorageKeys.VISIT_DATA_KEY_VERSION] === VISIT_DATA_KEY_VERSION) {
+      return;
+    }
     const visitStorageManager = await VisitStorageManager.getInstance();
+    if (visitStorageManager.hasVisitData()) {
+      const urlNormalization = await UrlNormalization.getInstance();
+      await this.rekeyVisitData(
+        urlNormalization.getRules().map(rule => rule.host)
+      );
+    }
+    await chrome.storage.local.set({
+      [StorageKeys.VISIT_DATA_KEY_VERSION]: VISIT_DATA_KEY_VERSION,
+    });
+  }
+
+  /**
+   * Brings the visit data keys in line with the URL normalization rules.
+   * Entries whose query parameters stopped being significant are merged.
+   * Entries stored without parameters that became significant for one of
+   * the given rule hosts are split up again using the browser history, which
+   * still knows the full URLs. Visits already stored under the new keys are
+   * not counted twice.
+   */
+  async rekeyVisitData(rebuildRuleHosts: string[]) {
+    const visitStorageManager = await VisitStorageManager.getInstance();
+    const urlNormalization = await UrlNormalization.getInstance();
+    let changedCount = visitStorageManager.rekeyVisitData();
+
+    const visitData = visitStorageManager.getAllVisitData();
+    const keysByHost = new Map<string, Set<string>>();
+    for (const key of Object.keys(visitData)) {
+      const url = validateUrl(key);
+      const rule = url && urlNormalization.getRuleForHost(url.hostname);
+      if (url && !url.search && rule && rebuildRuleHosts.includes(rule.host)) {
+        keysByHost.set(
+          url.hostname,
+          (keysByHost.get(url.hostname) ?? new Set()).add(key)
+        );
+      }
+    }
+
+    for (const [hostname, keys] of keysByHost) {
+      const historyByKey = await this.loadHistoryOfPages(
+        visitStorageManager,
+        hostname,
+        keys
+      );
+      for (const [key, rebuilt] of historyByKey) {
+        if (visitStorageManager.splitVisitData(key, rebuilt) > 0) {
+          changedCount++;
+        }
+      }
+    }
+
+    if (changedCount > 0) {
+      await visitStorageManager.saveVisitData();
+      console.log(`Re-keyed ${changedCount} visit data entries`);
+    }
+  }
+
+  /**
+   * Loads the history of a host, grouped by the origin and path key the
+   * pages were stored under before their query parameters were significant
+   */
+  private async loadHistoryOfPages(
+    visitStorageManager: VisitStorageManager,
+    hostname: string,
+    keys: Set<string>
+  ) {
+    const urlExclusion = await UrlExclusion.getInstance();
+    const maxAgeDays = (await SettingsManager.getInstance()).get(
+      'historyMaxAgeDays'
+    );
+    const historyItems = await chrome.history.search({
+      text: hostname,
+      startTime: Date.now() - maxAgeDays * DAY_IN_MS,
+      maxResults: MAX_BROWSER_HISTORY_COUNT,
+    });
+
+    const historyByKey = new Map<string, IVisitData>();
+    for (const item of historyItems) {
+      const url = validateUrl(item.url);
+      if (
+        !url ||
+        url.hostname !== hostname ||
+        urlExclusion.isUrlExcluded(url.href, 'import')
+      ) {
+        continue;
+      }
+      const key = normalizeUrl(url);
+      if (!keys.has(key)) {
+        continue;
+      }
+      const pages = historyByKey.get(key) ?? {};
+      visitStorageManager.addsVisitDataToMap(pages, {
+        rawUrl: item.url,
+        visitCount: item.visitCount,
+        lastVisitTime: item.lastVisitTime,
+        title: item.title,
+      });
+      historyByKey.set(key, pages);
+    }
+    return historyByKey;
+  }
+
+  private async getHighWaterMark(): Promise<number | null> {
+    const result = await chrome.storage.local.get(
+      StorageKeys.HISTORY_SYNC_TIME
+    );
+    const highWaterMark = result[StorageKeys.HISTORY_SYNC_TIME];
+    return typeof highWaterMark === 'number' ? highWaterMark : null;
+  }
 
+  private async importAll(
+    visitStorageManager: VisitStorageManager,
+    urlExclusion: UrlExclusion
+  ) {
     const historyDataMap = await timeAsync('fn:loadHistory', {}, async () =>
-      this.loadHistory(visitStorageManager)
+      this.loadHistory(visitStorageManager, urlExclusion)
     );
 
     const bookmarkDataMap = await timeAsync('fn:loadBookmarks', {}, async () =>
-      this.loadBookmarks(visitStorageManager)
+      this.loadBookmarks(visitStorageManager, urlExclusion)
     );
 
     await timeAsync('fn:aggregateDataAndSave', {}, async () => {
@@ -29,15 +360,14 @@ export class StorageController {
     });
   }
 
-  private async cleanUpStorage() {
-    for (const key of Object.values(StorageKeys)) {
-      await chrome.storage.local.remove(key);
-    }
-  }
-
-  private async loadHistory(visitStorageManager: VisitStorageManager) {
-    const maxAge = MAX_BROWSER_HISTORY_AGE_IN_DAYS * 24 * 60 * 60 * 1000; // Convert days to milliseconds
-    const startTime = Date.now() - maxAge;
+  private async loadHistory(
+    visitStorageManager: VisitStorageManager,
+    urlExclusion: UrlExclusion
+  ) {
+    const maxAgeDays = (await SettingsManager.getInstance()).get(
+      'historyMaxAgeDays'
+    );
+    const startTime = Date.now() - maxAgeDays * DAY_IN_MS;
     const historyDataMap: IVisitData = {};
 
     const historyItems = await timeAsync('readChromeHistory', {}, async () => {
@@ -49,50 +379,159 @@ export class StorageController {
     });
 
     if (historyItems.length === 0) {
-      console.log(
-        `No history items found in the last ${MAX_BROWSER_HISTORY_COUNT} days`
-      );
+      console.log(`No history items found in the last ${maxAgeDays} days`);
       return historyDataMap;
     }
 
-    return timeSync('process history data and save to map', {}, () => {
-      let skippedCount = 0;
+    return timeAsync('process history data and save to map', {}, async () => {
+      const includedItems = historyItems.filter(
+        item => !(item.url && urlExclusion.isUrlExcluded(item.url, 'import'))
+      );
       let processedCount = 0;
 
-      for (const item of historyItems) {
+      // Visits are counted at their real times, so frecency can tell
+      // recent visits from old ones
+      const visitTimes = await this.getVisitTimesInBatches(
+        includedItems.map(item => ({ item, after: startTime }))
+      );
+      for (const [index, item] of includedItems.entries()) {
+        const itemVisitTimes = visitTimes[index] ?? [];
         if (
+          itemVisitTimes.length > 0 &&
           visitStorageManager.addsVisitDataToMap(historyDataMap, {
             rawUrl: item.url,
-            visitCount: item.visitCount,
+            visitCount: itemVisitTimes.length,
             lastVisitTime: item.lastVisitTime,
             title: item.title,
+            visitTimes: itemVisitTimes,
           })
         ) {
           processedCount++;
-        } else {
-          skippedCount++;
         }
       }
 
       console.log(
-        `History data processing completed: ${processedCount} processed, ${skippedCount} skipped. Resulted in ${Object.keys(historyDataMap).length} unique URLs.`
+        `History data processing completed: ${processedCount} processed, ${historyItems.length - processedCount} skipped. Resulted in ${Object.keys(historyDataMap).length} unique URLs.`
       );
       return historyDataMap;
     });
   }
 
-  private async loadBookmarks(visitStorageManager: VisitStorageManager) {
+  /**
+   * Loads history visited after the given timestamp. `visitCount` of a
+   * history item covers all of its visits, so only the visits newer than the
+   * timestamp are counted.
+   */
+  private async loadHistorySince(
+    visitStorageManager: VisitStorageManager,
+    urlExclusion: UrlExclusion,
+    since: number
+  ) {
+    const maxAgeDays = (await SettingsManager.getInstance()).get(
+      'historyMaxAgeDays'
+    );
+    const startTime = Math.max(since, Date.now() - maxAgeDays * DAY_IN_MS);
+    const historyDataMap: IVisitData = {};
+
+    const historyItems = await chrome.history.search({
+      text: '',
+      startTime: startTime,
+      maxResults: MAX_BROWSER_HISTORY_COUNT,
+    });
+
+    const newItems: { item: chrome.history.HistoryItem; after: number }[] = [];
+    for (const item of historyItems) {
+      const url = validateUrl(item.url);
+      if (!url || urlExclusion.isUrlExcluded(url.href, 'import')) {
+        continue;
+      }
+      if ((item.lastVisitTime ?? 0) > startTime) {
+        newItems.push({ item, after: startTime });
+      }
+    }
+
+    let processedCount = 0;
+    const visitTimes = await this.getVisitTimesInBatches(newItems);
+    for (const [index, { item }] of newItems.entries()) {
+      const itemVisitTimes = visitTimes[index] ?? [];
+      if (
+        itemVisitTimes.length > 0 &&
+        visitStorageManager.addsVisitDataToMap(historyDataMap, {
+          rawUrl: item.url,
+          visitCount: itemVisitTimes.length,
+          lastVisitTime: item.lastVisitTime,
+          title: item.title,
+          visitTimes: itemVisitTimes,
+        })
+      ) {
+        processedCount++;
+      }
+    }
+
+    console.log(
+      `Incremental history sync completed: ${processedCount} processed, ${historyItems.length - processedCount} skipped. Resulted in ${Object.keys(historyDataMap).length} unique URLs.`
+    );
+    return historyDataMap;
+  }
+
+  /**
+   * Looks up the visit times of the items, `HISTORY_VISITS_BATCH_SIZE` pages
+   * at a time
+   * @returns the visit times after each item's timestamp, in item order
+   */
+  private async getVisitTimesInBatches(
+    items: { item: chrome.history.HistoryItem; after: number }[]
+  ): Promise<number[][]> {
+    const visitTimes: number[][] = [];
+    for (let i = 0; i < items.length; i += HISTORY_VISITS_BATCH_SIZE) {
+      const batch = items.slice(i, i + HISTORY_VISITS_BATCH_SIZE);
+      visitTimes.push(
+        ...(await Promise.all(
+          batch.map(({ item, after }) => this.getVisitTimesAfter(item, after))
+        ))
+      );
+    }
+    return visitTimes;
+  }
+
+  /**
+   * Times of the visits of a history item after the given timestamp. A page
+   * visited once needs no lookup of its visits.
+   */
+  private async getVisitTimesAfter(
+    item: chrome.history.HistoryItem,
+    after: number
+  ): Promise<number[]> {
+    if (item.visitCount === 1 && item.lastVisitTime !== undefined) {
+      return [item.lastVisitTime];
+    }
+    const visits = await chrome.history.getVisits({ url: item.url ?? '' });
+    return visits
+      .map(visit => visit.visitTime ?? 0)
+      .filter(visitTime => visitTime > after);
+  }
+
+  private async loadBookmarks(
+    visitStorageManager: VisitStorageManager,
+    urlExclusion: UrlExclusion
+  ) {
     const bookmarkDataMap: IVisitData = {};
     const bookmarkTree = await chrome.bookmarks.getTree();
     const bookmarks = this.flattenBookmarks(bookmarkTree);
     let skippedCount = 0;
     let processedCount = 0;
-    for (const bookmark of bookmarks) {
+    for (const { bookmark, folderPath } of bookmarks) {
+      if (bookmark.url && urlExclusion.isUrlExcluded(bookmark.url, 'import')) {
+        skippedCount++;
+        continue;
+      }
       if (
         visitStorageManager.addsVisitDataToMap(bookmarkDataMap, {
           rawUrl: bookmark.url,
           lastVisitTime: bookmark.dateLastUsed,
           customTitle: bookmark.title,
+          isBookmark: true,
+          bookmarkFolder: folderPath,
         })
       ) {
         processedCount++;
@@ -107,10 +546,25 @@ export class StorageController {
     return bookmarkDataMap;
   }
 
-  private flattenBookmarks(bookmarks: chrome.bookmarks.BookmarkTreeNode[]) {
-    return bookmarks.reduce<IBookmarkTreeNode[]>((acc, b) => {
-      if (b.children) acc.push(...this.flattenBookmarks(b.children));
-      else if (b.url) acc.push(b);
+  /**
+   * Lists the bookmarks of a tree with the folders they are in. The untitled
+   * root node is left out of the folder paths.
+   */
+  private flattenBookmarks(
+    bookmarks: chrome.bookmarks.BookmarkTreeNode[],
+    folderPath: string[] = []
+  ) {
+    return bookmarks.reduce<IFolderBookmark[]>((acc, b) => {
+      if (b.children) {
+        acc.push(
+          ...this.flattenBookmarks(
+            b.children,
+            b.title ? [...folderPath, b.title] : folderPath
+          )
+        );
+      } else if (b.url) {
+        acc.push({ bookmark: b, folderPath });
+      }
       return acc;
     }, []);
   }
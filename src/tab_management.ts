@@ -1,17 +1,48 @@
 import { throwIfNull } from './error_handling';
-
-interface UrlInfo {
-  domain: string;
-  subdomain: string;
-  pathName: string;
-  search: string;
-}
+import { SettingsManager } from './feature/settings';
+import { createTabComparator } from './feature/tab-sort';
+import { TabUndo } from './feature/tab-undo';
+import { TabGroupRules } from './feature/tab-group-rules';
+import {
+  isPlanEmpty,
+  planDedupe,
+  planGroup,
+  planMerge,
+  planMoveToNewWindow,
+  planSort,
+  planUngroup,
+  TAB_PLAN_LABELS,
+} from './feature/tab-plan';
+import { executeTabPlan } from './feature/tab-plan-executor';
+import { getDedupeRules, queryDedupeTabs } from './feature/tab-dedupe';
+import { TabPlanPreview } from './ui/tab-plan-preview';
+import { TabPlan } from './types';
+import { VisitStorageManager } from './searching/visit-storage-manager';
+import { validateUrl } from './searching/utils';
+import { UrlNormalization } from './feature/url-normalization';
+import { hasFilters, matchesTab, parseQuery } from './searching/query-parser';
+import { planSplitCurrentWindow, SplitWindowBy } from './feature/tab-split';
 
 export class TabManagement {
+  private readonly tabUndo = new TabUndo();
+  private readonly undoButton: HTMLButtonElement;
+  private readonly preview: TabPlanPreview;
+
   constructor() {
+    this.undoButton =
+      (document.getElementById('undoTabs') as HTMLButtonElement | null) ??
+      throwIfNull('undoTabs cannot be null');
+    this.preview = new TabPlanPreview(
+      document.getElementById('tab-plan-preview') ??
+        throwIfNull('tab-plan-preview cannot be null')
+    );
+
     this.setupSortButton();
     this.setupDeduplicateButton();
     this.setupMergeButton();
+    this.setupGroupButtons();
+    this.setupSplitButtons();
+    this.setupUndoButton();
   }
 
   private setupSortButton() {
@@ -19,53 +50,202 @@ export class TabManagement {
       document.getElementById('sortTabs') ??
       throwIfNull('sortTabs cannot be null');
 
-    const sortOrder: (keyof UrlInfo)[] = [
-      'domain',
-      'subdomain',
-      'pathName',
-      'search',
-    ];
     sortButton.addEventListener('click', async () => {
       try {
-        const tabs = await chrome.tabs.query({ currentWindow: true });
-        
+        const settings = (await SettingsManager.getInstance()).getAll();
+        const tabs = await chrome.tabs.query(
+          settings.tabSortAllWindows
+            ? { windowType: 'normal' }
+            : { currentWindow: true }
+        );
+
         if (!tabs || tabs.length === 0) {
           console.log('No tabs found to sort');
           return;
         }
 
-        const sortedTabs = tabs.sort((a, b) => {
-          const urlA = this.getUrlInfo(a.url || '');
-          const urlB = this.getUrlInfo(b.url || '');
-
-          for (const key of sortOrder) {
-            const compareResult = urlA[key].localeCompare(urlB[key]);
-            if (compareResult !== 0) {
-              return compareResult;
-            }
-          }
-          return 0;
-        });
-
-        // Move tabs in reverse order to maintain correct positioning
-        for (let i = sortedTabs.length - 1; i >= 0; i--) {
-          const tab = sortedTabs[i];
-          if (tab?.id !== undefined) {
-            try {
-              await chrome.tabs.move(tab.id, { index: i });
-            } catch (moveError) {
-              console.error(`Failed to move tab ${tab.id}:`, moveError);
-            }
-          }
-        }
-        
-        console.log(`Successfully sorted ${sortedTabs.length} tabs`);
+        const compare = createTabComparator(
+          settings.tabSortStrategy,
+          settings.tabSortStrategy === 'visitCount'
+            ? await this.loadVisitCounts()
+            : undefined
+        );
+        await this.runPlan(
+          planSort(tabs, compare, settings.tabSortKeepPinned),
+          settings.previewTabOperations
+        );
       } catch (error) {
         console.error('Error sorting tabs:', error);
       }
     });
   }
 
+  private setupGroupButtons(): void {
+    const groupButton =
+      document.getElementById('groupTabs') ??
+      throwIfNull('groupTabs cannot be null');
+    const ungroupButton =
+      document.getElementById('ungroupTabs') ??
+      throwIfNull('ungroupTabs cannot be null');
+
+    groupButton.addEventListener('click', async () => {
+      try {
+        const settings = (await SettingsManager.getInstance()).getAll();
+        const groupRules = await TabGroupRules.getInstance();
+        const [tabs, existingGroups] = await Promise.all([
+          chrome.tabs.query({ currentWindow: true }),
+          chrome.tabGroups.query({
+            windowId: chrome.windows.WINDOW_ID_CURRENT,
+          }),
+        ]);
+
+        await this.runPlan(
+          planGroup(
+            tabs,
+            tab =>
+              groupRules.resolveGroup(tab.url || '', settings.tabGroupByDomain),
+            existingGroups
+          ),
+          settings.previewTabOperations
+        );
+      } catch (error) {
+        console.error('Error grouping tabs:', error);
+      }
+    });
+
+    ungroupButton.addEventListener('click', async () => {
+      try {
+        const settings = (await SettingsManager.getInstance()).getAll();
+        await this.runPlan(
+          planUngroup(await chrome.tabs.query({ currentWindow: true })),
+          settings.previewTabOperations
+        );
+      } catch (error) {
+        console.error('Error ungrouping tabs:', error);
+      }
+    });
+  }
+
+  private setupSplitButtons(): void {
+    const splitButtons: Record<string, SplitWindowBy> = {
+      splitByDomain: 'domain',
+      splitByGroup: 'group',
+    };
+    for (const [buttonId, by] of Object.entries(splitButtons)) {
+      const button =
+        document.getElementById(buttonId) ??
+        throwIfNull(`${buttonId} cannot be null`);
+      button.addEventListener('click', async () => {
+        try {
+          const settings = (await SettingsManager.getInstance()).getAll();
+          await this.runPlan(
+            await planSplitCurrentWindow(by),
+            settings.previewTabOperations
+          );
+        } catch (error) {
+          console.error(`Error splitting window by ${by}:`, error);
+        }
+      });
+    }
+
+    const moveButton =
+      document.getElementById('moveMatchingTabs') ??
+      throwIfNull('moveMatchingTabs cannot be null');
+    const searchBox =
+      (document.getElementById('searchBox') as HTMLInputElement | null) ??
+      throwIfNull('searchBox cannot be null');
+
+    const moveMatchingTabs = async () => {
+      try {
+        const rawQuery = searchBox.value.trim();
+        const query = parseQuery(rawQuery);
+        if (query.text.length === 0 && !hasFilters(query)) {
+          console.log('No search query to match tabs with');
+          return;
+        }
+        const settings = (await SettingsManager.getInstance()).getAll();
+        // Tabs cannot move between incognito and normal windows
+        const { incognito } = await chrome.windows.getCurrent();
+        await this.runPlan(
+          planMoveToNewWindow(
+            await chrome.tabs.query({ windowType: 'normal' }),
+            tab => tab.incognito === incognito && matchesTab(tab, query),
+            rawQuery
+          ),
+          settings.previewTabOperations
+        );
+      } catch (error) {
+        console.error('Error moving matching tabs:', error);
+      }
+    };
+    moveButton.addEventListener('click', moveMatchingTabs);
+    // Alt changes the typed character on macOS, so match the physical key
+    searchBox.addEventListener('keydown', e => {
+      if (e.altKey && e.shiftKey && e.code === 'KeyM') {
+        e.preventDefault();
+        moveMatchingTabs();
+      }
+    });
+  }
+
+  private setupUndoButton(): void {
+    this.undoButton.addEventListener('click', async () => {
+      try {
+        await this.tabUndo.undo();
+      } catch (error) {
+        console.error('Error undoing tab operation:', error);
+      }
+      await this.refreshUndoButton();
+    });
+    this.refreshUndoButton();
+  }
+
+  /**
+   * Names the operation the Undo button reverts, and disables the button
+   * when there is nothing to undo
+   */
+  private async refreshUndoButton(): Promise<void> {
+    try {
+      const operation = await this.tabUndo.getUndoableOperation();
+      this.undoButton.disabled = operation === null;
+      this.undoButton.setAttribute(
+        'data-tooltip',
+        operation ? `Undo ${operation}` : 'Undo'
+      );
+    } catch (error) {
+      console.error('Error loading undo state:', error);
+    }
+  }
+
+  /**
+   * Snapshots the tabs before an operation. Failing to do so must not stop
+   * the operation itself.
+   */
+  private async saveUndoSnapshot(operation: string): Promise<void> {
+    try {
+      await this.tabUndo.saveSnapshot(operation);
+    } catch (error) {
+      console.error('Error saving tab snapshot for undo:', error);
+    }
+  }
+
+  /**
+   * Looks up the Y-Nav visit count of tab URLs, which are stored by their
+   * normalized URL
+   */
+  private async loadVisitCounts(): Promise<(url: string) => number> {
+    const visitStorageManager = await VisitStorageManager.getInstance();
+    const urlNormalization = await UrlNormalization.getInstance();
+    return url => {
+      const validUrl = validateUrl(url);
+      return validUrl
+        ? visitStorageManager.getVisitCount(
+            urlNormalization.normalize(validUrl)
+          )
+        : 0;
+    };
+  }
+
   private setupDeduplicateButton() {
     const deDuplicatesButton =
       document.getElementById('deDuplicates') ??
@@ -73,32 +253,18 @@ export class TabManagement {
 
     deDuplicatesButton.addEventListener('click', async () => {
       try {
-        const tabs = await chrome.tabs.query({ currentWindow: true });
+        const settings = (await SettingsManager.getInstance()).getAll();
+        const tabs = await queryDedupeTabs(settings.dedupeAcrossWindows);
         
         if (!tabs || tabs.length === 0) {
           console.log('No tabs found to deduplicate');
           return;
         }
 
-        const seenUrls = new Set<string>();
-        const duplicateTabIds: number[] = [];
-
-        for (const tab of tabs) {
-          if (tab.url && typeof tab.url === 'string') {
-            if (seenUrls.has(tab.url) && tab.id !== undefined) {
-              duplicateTabIds.push(tab.id);
-            } else {
-              seenUrls.add(tab.url);
-            }
-          }
-        }
-
-        if (duplicateTabIds.length > 0) {
-          await chrome.tabs.remove(duplicateTabIds);
-          console.log(`Removed ${duplicateTabIds.length} duplicate tabs`);
-        } else {
-          console.log('No duplicate tabs found');
-        }
+        await this.runPlan(
+          planDedupe(tabs, getDedupeRules(settings), settings.dedupeKeepPolicy),
+          settings.previewTabOperations
+        );
       } catch (error) {
         console.error('Error removing duplicate tabs:', error);
       }
@@ -118,67 +284,43 @@ export class TabManagement {
           return;
         }
 
-        const allTabs = await chrome.tabs.query({});
-        const tabsToMove = allTabs.filter(
-          tab => tab.windowId !== currentWindow.id && tab.id !== undefined
+        const settings = (await SettingsManager.getInstance()).getAll();
+        await this.runPlan(
+          planMerge(await chrome.tabs.query({}), currentWindow.id),
+          settings.previewTabOperations
         );
-
-        if (tabsToMove.length === 0) {
-          console.log('No tabs from other windows to merge');
-          return;
-        }
-
-        let movedCount = 0;
-        for (const tab of tabsToMove) {
-          if (tab.id !== undefined) {
-            try {
-              await chrome.tabs.move(tab.id, {
-                windowId: currentWindow.id,
-                index: -1,
-              });
-              movedCount++;
-            } catch (moveError) {
-              console.error(`Failed to move tab ${tab.id}:`, moveError);
-            }
-          }
-        }
-        
-        console.log(`Successfully merged ${movedCount} tabs from other windows`);
       } catch (error) {
         console.error('Error merging windows:', error);
       }
     });
   }
 
-  private getUrlInfo(url: string): UrlInfo {
-    try {
-      if (!url || typeof url !== 'string') {
-        return { domain: '', subdomain: '', pathName: '', search: '' };
-      }
+  /**
+   * Applies the plan right away, or lists it in the preview panel first
+   */
+  private async runPlan(plan: TabPlan, preview: boolean): Promise<void> {
+    if (isPlanEmpty(plan)) {
+      console.log(`Nothing to ${TAB_PLAN_LABELS[plan.kind]}`);
+      this.preview.hide();
+      return;
+    }
+    if (preview) {
+      this.preview.show(plan, confirmedPlan => this.applyPlan(confirmedPlan));
+    } else {
+      await this.applyPlan(plan);
+    }
+  }
 
-      const urlObj = new URL(url);
-      const hostname = urlObj.hostname.split('.');
-
-      const domain =
-        hostname.length >= 2
-          ? `${hostname[hostname.length - 2]}.${hostname[hostname.length - 1]}`
-          : urlObj.hostname;
-      const subdomain =
-        hostname.length >= 3
-          ? hostname.slice(0, hostname.length - 2).join('.')
-          : '';
-      const pathName = urlObj.pathname || '';
-      const search = urlObj.search || '';
-
-      return {
-        domain,
-        subdomain,
-        pathName,
-        search,
-      };
-    } catch (e) {
-      console.error('Unable to parse URL:', url, e);
-      return { domain: url || '', subdomain: '', pathName: '', search: '' };
+  private async applyPlan(plan: TabPlan): Promise<void> {
+    if (isPlanEmpty(plan)) {
+      return;
+    }
+    try {
+      await this.saveUndoSnapshot(TAB_PLAN_LABELS[plan.kind]);
+      await executeTabPlan(plan);
+    } catch (error) {
+      console.error(`Error applying ${TAB_PLAN_LABELS[plan.kind]}:`, error);
     }
+    await this.refreshUndoButton();
   }
 }
@@ -1,23 +1,271 @@
 export type IBookmarkTreeNode = chrome.bookmarks.BookmarkTreeNode;
 
+export interface IFolderBookmark {
+  bookmark: IBookmarkTreeNode;
+  folderPath: string[]; // Titles of the enclosing folders, outermost first
+}
+
+export interface IBookmarkInfo {
+  title: string;
+  lastVisited: number;
+  folderPath: string[];
+}
 
+export interface IHistoryRemoval {
+  allHistory: boolean;
+  urls?: string[];
+}
+
+export type ExclusionRuleType = 'prefix' | 'glob' | 'regex' | 'host';
+
+// record: don't record visits, search: don't show in search, import: don't import from history
+export type ExclusionScope = 'record' | 'search' | 'import';
+
+export interface IExclusionRule {
+  id: string;
+  type: ExclusionRuleType;
+  pattern: string;
+  scopes: ExclusionScope[];
+}
+
+export interface IStoredExclusionRules {
+  version: number;
+  rules: IExclusionRule[];
+}
+
+// Query parameters that tell pages of a host apart, e.g. `v` on youtube.com
+export interface IQueryParamRule {
+  id: string;
+  host: string; // Also matches its subdomains
+  params: string[]; // `*` keeps every parameter that is not tracking
+}
+
+export interface IStoredUrlNormalization {
+  version: number;
+  rules: IQueryParamRule[];
+  trackingParams: string[]; // Names, or prefixes ending in `*`
+}
 
 export interface IVisitDataBody {
   count: number; // Number of visits
   lastVisited: number; // Timestamp of last visit
   title?: string; // Page title for search (optional)
   customTitle?: string;
+  titleEdited?: boolean; // customTitle was set by the user and wins over the bookmark title
+  isBookmark: boolean; // Whether a bookmark points to this URL
+  bookmarkFolder?: string[]; // Folders of the bookmark, from the top-level folder down
+  visitBuckets?: { [day: string]: number }; // Visits per day since epoch, for recency ranking
 }
 
 export interface IVisitData {
   [normalizedUrl: string]: IVisitDataBody;
 }
 
+export interface ISelectionRecord {
+  count: number; // Times the URL was picked for the query
+  lastSelected: number; // Timestamp of last pick
+}
+
+export interface ISearchSelections {
+  [queryPrefix: string]: { [url: string]: ISelectionRecord };
+}
+
+// Changes to a single visit data entry, requested from the popup
+export type VisitEntryEdit =
+  | { kind: 'rename'; url: string; title: string } // An empty title restores the page title
+  | { kind: 'resetCount'; url: string }
+  | { kind: 'delete'; url: string };
+
+export interface IVisitEntryEditMessage {
+  type: string;
+  edit: VisitEntryEdit;
+}
+
+export interface IVisitEntryEditResponse {
+  ok: boolean;
+  error?: string;
+}
+
+export type SearchEntryAction =
+  | 'toggleMark'
+  | 'copyUrl'
+  | 'copyMarkdown'
+  | 'rename'
+  | 'bookmark'
+  | 'resetCount'
+  | 'delete';
+
+// Where a picked result is opened
+export type OpenDisposition =
+  | 'foreground' // Switches to an open tab of the page, or opens a new one
+  | 'background' // New tab without leaving the popup
+  | 'newWindow'
+  | 'incognito'
+  | 'currentTab';
+
+// Where the marked results are opened together
+export type BulkOpenTarget =
+  'tabs' | 'backgroundTabs' | 'newWindow' | 'incognito' | 'tabGroup';
+
 export interface SearchEntry {
   url: string;
   title: string;
   visitCount: number;
   lastVisited: number;
+  frecency: number; // Visit count decayed by age
+  isBookmark: boolean;
+  isOpenTab: boolean;
+  folderPath?: string; // Breadcrumb of the bookmark folder
+  folderUrls?: string[]; // Set on folder results, the bookmarks they open
+}
+
+export type TabSortStrategy =
+  'domain' | 'title' | 'lastAccessed' | 'visitCount';
+
+// Which of the duplicate tabs is kept open
+export type DedupeKeepPolicy =
+  'first' | 'pinned' | 'active' | 'lastAccessed' | 'audible';
+
+export interface ITabSnapshotTab {
+  id: number;
+  url: string;
+  windowId: number;
+  index: number;
+  pinned: boolean;
+  groupId: number;
+}
+
+export interface ITabSnapshotGroup {
+  id: number;
+  windowId: number;
+  title: string;
+  color: chrome.tabGroups.Color;
+  collapsed: boolean;
+}
+
+// Tab layout of all normal windows taken before a tab operation, used to undo it
+export interface ITabSnapshot {
+  operation: string;
+  takenAt: number;
+  windows: { id: number }[];
+  tabs: ITabSnapshotTab[];
+  groups: ITabSnapshotGroup[];
+}
+
+export interface IPlannedTab {
+  tabId: number;
+  windowId: number;
+  index: number;
+  groupId: number;
+  title: string;
+  url: string;
+}
+
+export interface ITabGroupRule {
+  id: string;
+  pattern: string; // Wildcard matched against the host, or host and path
+  title: string;
+  color: chrome.tabGroups.Color;
+}
+
+export interface ITabGroupTarget {
+  title: string;
+  color: chrome.tabGroups.Color;
+  fromRule: boolean;
+}
+
+export interface IPlannedTabGroup {
+  windowId: number;
+  // Group with the same title to add the tabs to, or TAB_GROUP_ID_NONE
+  groupId: number;
+  title: string;
+  color: chrome.tabGroups.Color;
+  tabs: IPlannedTab[];
+}
+
+// Changes a tab operation would make, computed before any tab is touched
+export type TabPlan =
+  | {
+      kind: 'sort';
+      // New tab order of every window whose order changes
+      windows: { windowId: number; tabs: IPlannedTab[] }[];
+    }
+  | {
+      kind: 'dedupe';
+      closes: { tab: IPlannedTab; keptTab: IPlannedTab }[];
+    }
+  | {
+      kind: 'merge';
+      targetWindowId: number;
+      moves: IPlannedTab[];
+    }
+  | {
+      kind: 'group';
+      groups: IPlannedTabGroup[];
+    }
+  | {
+      kind: 'ungroup';
+      tabs: IPlannedTab[];
+    }
+  | {
+      kind: 'split';
+      // Every entry becomes a new window
+      windows: { title: string; tabs: IPlannedTab[] }[];
+    };
+
+export interface ISessionTab {
+  url: string;
+  title: string;
+  pinned: boolean;
+}
+
+// Named set of windows saved to be reopened later
+export interface ITabSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  windows: { tabs: ISessionTab[] }[];
+}
+
+export interface ISessionsImport {
+  sessions: ITabSession[];
+  skippedCount: number; // Sessions without a window with a valid tab
+}
+
+export interface IStoredTabSessions {
+  version: number;
+  sessions: ITabSession[];
+}
+
+export type StaleTabAction = 'off' | 'discard' | 'close';
+
+// Threshold for a domain and its subdomains; null never touches its tabs
+export interface IStaleTabRule {
+  id: string;
+  domain: string;
+  hours: number | null;
+}
+
+export interface IAutoClosedTab {
+  url: string;
+  title: string;
+  closedAt: number;
+}
+
+export interface SearchSection {
+  title: string;
+  entries: SearchEntry[];
+}
+
+export type SearchSource = 'bookmarks' | 'history' | 'tabs';
+
+export interface ParsedQuery {
+  text: string; // Remaining free text for fuzzy search
+  phrases: string[]; // Quoted phrases that must appear as-is
+  excludedTerms: string[]; // -term, results containing them are dropped
+  sites: string[]; // site:, matches the host and its subdomains
+  sources: SearchSource[]; // in:, any of the listed sources
+  after?: number; // after:, timestamp results must be visited after
 }
 
 export interface SearchResult {
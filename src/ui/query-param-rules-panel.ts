@@ -0,0 +1,108 @@
+import { UrlNormalization } from '../feature/url-normalization';
+import { escapeHtml } from '../searching/utils';
+import {
+  errorManager as defaultErrorManager,
+  IErrorManager,
+} from '../feature/error-manager';
+import { IQueryParamRule } from '../types';
+
+export class QueryParamRulesPanel {
+  private readonly errorManager: IErrorManager;
+
+  constructor(
+    private readonly container: HTMLElement,
+    private readonly urlNormalization: UrlNormalization,
+    errorManager?: IErrorManager
+  ) {
+    this.errorManager = errorManager || defaultErrorManager;
+    this.render();
+  }
+
+  private render(): void {
+    const rules = this.urlNormalization.getRules();
+    this.container.innerHTML = `
+      <form class="options-form" id="query-param-rule-form">
+        <input type="text" id="query-param-rule-host" placeholder="app.example.com" autocomplete="off" />
+        <input type="text" id="query-param-rule-params" placeholder="id, view" autocomplete="off" />
+        <button type="submit" class="options-button">Add</button>
+      </form>
+      ${rules.length > 0 ? `<ul class="options-list">${rules.map(rule => this.renderRule(rule)).join('')}</ul>` : '<div class="options-empty">Query parameters are ignored on every host</div>'}
+      <form class="options-form" id="tracking-params-form">
+        <input type="text" id="tracking-params" value="${escapeHtml(this.urlNormalization.getTrackingParams().join(', '))}" autocomplete="off" />
+        <button type="submit" class="options-button">Save</button>
+      </form>
+    `;
+    this.attachEventListeners();
+  }
+
+  private renderRule(rule: IQueryParamRule): string {
+    return `
+      <li class="options-list-item">
+        <code>${escapeHtml(rule.host)}</code>
+        <span class="options-badge">${escapeHtml(rule.params.join(', '))}</span>
+        <button class="options-button secondary" data-remove-rule="${escapeHtml(rule.id)}">Remove</button>
+      </li>`;
+  }
+
+  private attachEventListeners(): void {
+    const ruleForm = this.container.querySelector('#query-param-rule-form');
+    const hostInput = this.container.querySelector(
+      '#query-param-rule-host'
+    ) as HTMLInputElement | null;
+    const paramsInput = this.container.querySelector(
+      '#query-param-rule-params'
+    ) as HTMLInputElement | null;
+    const trackingForm = this.container.querySelector('#tracking-params-form');
+    const trackingInput = this.container.querySelector(
+      '#tracking-params'
+    ) as HTMLInputElement | null;
+
+    ruleForm?.addEventListener('submit', async e => {
+      e.preventDefault();
+      if (!hostInput || !paramsInput) {
+        return;
+      }
+      try {
+        await this.urlNormalization.setRule(hostInput.value, paramsInput.value);
+        this.render();
+      } catch (error) {
+        this.reportError('add query parameter rule', error);
+      }
+    });
+
+    trackingForm?.addEventListener('submit', async e => {
+      e.preventDefault();
+      if (!trackingInput) {
+        return;
+      }
+      try {
+        await this.urlNormalization.setTrackingParams(trackingInput.value);
+        this.render();
+      } catch (error) {
+        this.reportError('save tracking parameters', error);
+      }
+    });
+
+    this.container
+      .querySelectorAll<HTMLElement>('[data-remove-rule]')
+      .forEach(button => {
+        button.addEventListener('click', async () => {
+          const ruleId = button.getAttribute('data-remove-rule');
+          if (!ruleId) return;
+          try {
+            await this.urlNormalization.removeRule(ruleId);
+            this.render();
+          } catch (error) {
+            this.reportError('remove query parameter rule', error);
+          }
+        });
+      });
+  }
+
+  private reportError(action: string, error: unknown): void {
+    this.errorManager.addError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+    this.errorManager.displayErrors();
+  }
+}
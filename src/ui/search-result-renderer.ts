@@ -1,20 +1,124 @@
-import { SearchEntry } from '../types';
+import {
+  ParsedQuery,
+  SearchEntry,
+  SearchEntryAction,
+  SearchSection,
+} from '../types';
 import { escapeHtml, getFaviconUrl, truncateUrl } from '../searching/utils';
 import { SEARCH_MAX_RESULT_TO_DISPLAY } from '../utils/constants';
 
+const ENTRY_ACTION_LABELS: Record<SearchEntryAction, [string, string]> = {
+  toggleMark: ['Mark to open together', 'Space'],
+  copyUrl: ['Copy URL', 'Alt+C'],
+  copyMarkdown: ['Copy as Markdown link', 'Alt+Shift+C'],
+  rename: ['Rename', 'F2'],
+  bookmark: ['Add bookmark', 'Ctrl+D'],
+  resetCount: ['Reset visit count', 'Alt+Shift+R'],
+  delete: ['Delete from Y-Nav', 'Shift+Del'],
+};
+
 export class SearchResultRenderer {
-  static renderSearchResults(searchResults: SearchEntry[]): string {
+  static renderSearchResults(
+    searchResults: SearchEntry[],
+    pinnedUrls: Set<string> = new Set(),
+    maxShown: number = SEARCH_MAX_RESULT_TO_DISPLAY
+  ): string {
     if (searchResults.length === 0) {
       return '<div class="no-results">No record found</div>';
     }
 
     return searchResults
-      .slice(0, SEARCH_MAX_RESULT_TO_DISPLAY)
-      .map(this.renderResultEntry)
+      .slice(0, maxShown)
+      .map(result => this.renderResultEntry(result, pinnedUrls.has(result.url)))
+      .join('');
+  }
+
+  /**
+   * Renders the home view. Every entry of every section is rendered, so the
+   * result items line up with the flattened section entries.
+   */
+  static renderSections(
+    sections: SearchSection[],
+    pinnedUrls: Set<string>
+  ): string {
+    return sections
+      .map(
+        section => `
+        <div class="search-section-title">${escapeHtml(section.title)}</div>
+        ${section.entries
+          .map(entry =>
+            this.renderResultEntry(entry, pinnedUrls.has(entry.url))
+          )
+          .join('')}
+        `
+      )
+      .join('');
+  }
+
+  static renderFilterChips(query: ParsedQuery): string {
+    const chips = [
+      ...query.sources.map(source => `in: ${source}`),
+      ...query.sites.map(site => `site: ${site}`),
+      ...query.phrases.map(phrase => `"${phrase}"`),
+      ...query.excludedTerms.map(term => `not: ${term}`),
+    ];
+    if (query.after !== undefined) {
+      chips.push(`after: ${new Date(query.after).toLocaleDateString()}`);
+    }
+
+    return chips
+      .map(chip => `<span class="query-filter-chip">${escapeHtml(chip)}</span>`)
       .join('');
   }
 
-  private static renderResultEntry(result: SearchEntry): string {
+  /**
+   * Renders the context menu of a result. Bookmarked entries cannot be
+   * bookmarked again, and folder results can only be marked.
+   */
+  static renderEntryMenu(entry: SearchEntry, isMarked: boolean): string {
+    return (Object.keys(ENTRY_ACTION_LABELS) as SearchEntryAction[])
+      .filter(action =>
+        entry.folderUrls
+          ? action === 'toggleMark'
+          : action !== 'bookmark' || !entry.isBookmark
+      )
+      .map(action => {
+        const [label, shortcut] =
+          action === 'toggleMark' && isMarked
+            ? ['Unmark', 'Space']
+            : ENTRY_ACTION_LABELS[action];
+        return `
+          <button class="search-result-menu-item" data-entry-action="${action}">
+            <span>${label}</span>
+            <span class="search-result-menu-shortcut">${shortcut}</span>
+          </button>`;
+      })
+      .join('');
+  }
+
+  /**
+   * Renders the actions for the marked results, or nothing without marks
+   */
+  static renderMarkedBar(markedCount: number): string {
+    if (markedCount === 0) {
+      return '';
+    }
+    return `
+      <span class="marked-results-count">${markedCount} marked</span>
+      <button class="marked-results-button" data-bulk-open="tabs">Open in tabs</button>
+      <button class="marked-results-button" data-bulk-open="newWindow">New window</button>
+      <button class="marked-results-button" data-bulk-open="tabGroup">Tab group</button>
+      <button class="marked-results-button secondary" data-clear-marks>Clear</button>
+    `;
+  }
+
+  private static renderResultEntry(
+    result: SearchEntry,
+    isPinned: boolean
+  ): string {
+    if (result.folderUrls) {
+      return this.renderFolderEntry(result, result.folderUrls, isPinned);
+    }
     const faviconUrl = getFaviconUrl(result.url || '');
     const truncatedUrl = truncateUrl(result.url || '');
 
@@ -23,9 +127,42 @@ export class SearchResultRenderer {
             <img class="search-result-favicon" src="${faviconUrl}"  alt="${result.title}"/>
             <div class="search-result-content">
                 <div class="search-result-title">${escapeHtml(result.title)}</div>
+                ${result.isOpenTab ? '<span class="search-result-badge">Tab</span>' : ''}
+                ${this.renderBreadcrumb(result)}
                 <div class="search-result-url">${escapeHtml(truncatedUrl)}</div>
             </div>
+            <button class="search-result-pin${isPinned ? ' pinned' : ''}" title="${isPinned ? 'Unpin' : 'Pin'}">${isPinned ? '★' : '☆'}</button>
+        </div>
+        `;
+  }
+
+  /**
+   * Renders a bookmark folder, which opens all bookmarks directly inside it
+   */
+  private static renderFolderEntry(
+    result: SearchEntry,
+    folderUrls: string[],
+    isPinned: boolean
+  ): string {
+    return `
+        <div class="search-result-item" data-url="${result.url}">
+            <svg class="search-result-favicon search-result-folder-icon" viewBox="0 0 24 24" aria-label="Folder">
+              <path fill="#5f6368" d="M10 4H4a2 2 0 0 0-2 2v12a2 2 0 0 0 2 2h16a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-8z"/>
+            </svg>
+            <div class="search-result-content">
+                <div class="search-result-title">${escapeHtml(result.title)}</div>
+                <span class="search-result-badge">Folder</span>
+                ${this.renderBreadcrumb(result)}
+                <div class="search-result-url">Open ${folderUrls.length} ${folderUrls.length === 1 ? 'bookmark' : 'bookmarks'}</div>
+            </div>
+            <button class="search-result-pin${isPinned ? ' pinned' : ''}" title="${isPinned ? 'Unpin' : 'Pin'}">${isPinned ? '★' : '☆'}</button>
         </div>
         `;
   }
+
+  private static renderBreadcrumb(result: SearchEntry): string {
+    return result.folderPath
+      ? `<div class="search-result-folder">${escapeHtml(result.folderPath)}</div>`
+      : '';
+  }
 }
@@ -0,0 +1,221 @@
+import {
+  exportSessionAsUrlList,
+  exportSessionsAsJson,
+  TabSessions,
+} from '../feature/tab-sessions';
+import { escapeHtml } from '../searching/utils';
+import {
+  errorManager as defaultErrorManager,
+  IErrorManager,
+} from '../feature/error-manager';
+import { ITabSession } from '../types';
+
+/**
+ * Popup panel to save the open windows as a named session, and to restore,
+ * export, import and delete saved sessions
+ */
+export class SessionsPanel {
+  private readonly errorManager: IErrorManager;
+
+  constructor(
+    private readonly container: HTMLElement,
+    toggleButton: HTMLElement,
+    errorManager?: IErrorManager
+  ) {
+    this.errorManager = errorManager || defaultErrorManager;
+    toggleButton.addEventListener('click', async () => {
+      if (this.container.classList.contains('visible')) {
+        this.hide();
+      } else {
+        await this.show();
+      }
+    });
+  }
+
+  private async show(): Promise<void> {
+    try {
+      this.render(await TabSessions.getInstance());
+      this.container.classList.add('visible');
+    } catch (error) {
+      this.reportError('load sessions', error);
+    }
+  }
+
+  private hide(): void {
+    this.container.innerHTML = '';
+    this.container.classList.remove('visible');
+  }
+
+  private render(tabSessions: TabSessions): void {
+    const sessions = tabSessions.getSessions();
+    this.container.innerHTML = `
+      <form class="session-form" id="session-save-form">
+        <input type="text" id="session-name" placeholder="Session name" autocomplete="off" />
+        <label><input type="checkbox" id="session-all-windows" /> All windows</label>
+        <button type="submit" class="tab-plan-button">Save</button>
+      </form>
+      ${
+        sessions.length > 0
+          ? `<ul class="session-list">${sessions.map(session => this.renderSession(session)).join('')}</ul>`
+          : '<div class="session-empty">No saved sessions</div>'
+      }
+      <details class="session-import">
+        <summary>Import</summary>
+        <textarea id="session-import-text" placeholder="Exported JSON, or one URL per line"></textarea>
+        <div class="tab-plan-actions">
+          ${sessions.length > 0 ? '<button class="tab-plan-button secondary" id="session-export-all">Export all as JSON</button>' : ''}
+          <button class="tab-plan-button" id="session-import">Import</button>
+        </div>
+      </details>
+    `;
+    this.attachEventListeners(tabSessions, sessions);
+  }
+
+  private renderSession(session: ITabSession): string {
+    const tabCount = session.windows.reduce(
+      (count, window) => count + window.tabs.length,
+      0
+    );
+    return `
+      <li class="session-item" data-session-id="${escapeHtml(session.id)}">
+        <span class="session-name">${escapeHtml(session.name)}</span>
+        <span class="session-detail">${tabCount} tabs, ${session.windows.length} ${session.windows.length === 1 ? 'window' : 'windows'}</span>
+        <button class="tab-plan-button" data-action="restore">Restore</button>
+        <button class="tab-plan-button secondary" data-action="json">JSON</button>
+        <button class="tab-plan-button secondary" data-action="urls">URLs</button>
+        <button class="tab-plan-button secondary" data-action="delete">Delete</button>
+      </li>`;
+  }
+
+  private attachEventListeners(
+    tabSessions: TabSessions,
+    sessions: ITabSession[]
+  ): void {
+    const nameInput = this.container.querySelector(
+      '#session-name'
+    ) as HTMLInputElement | null;
+    const allWindowsInput = this.container.querySelector(
+      '#session-all-windows'
+    ) as HTMLInputElement | null;
+    const importText = this.container.querySelector(
+      '#session-import-text'
+    ) as HTMLTextAreaElement | null;
+
+    this.container
+      .querySelector('#session-save-form')
+      ?.addEventListener('submit', async e => {
+        e.preventDefault();
+        try {
+          await tabSessions.saveOpenWindows(
+            nameInput?.value ?? '',
+            allWindowsInput?.checked ?? false
+          );
+          this.render(tabSessions);
+        } catch (error) {
+          this.reportError('save session', error);
+        }
+      });
+
+    this.container
+      .querySelector('#session-import')
+      ?.addEventListener('click', async () => {
+        try {
+          const { skippedCount } = await tabSessions.import(
+            importText?.value ?? ''
+          );
+          this.render(tabSessions);
+          if (skippedCount > 0) {
+            this.errorManager.addError(
+              `Skipped ${skippedCount} sessions without a window with a valid tab`
+            );
+            this.errorManager.displayErrors();
+          }
+        } catch (error) {
+          this.reportError('import sessions', error);
+        }
+      });
+
+    this.container
+      .querySelector('#session-export-all')
+      ?.addEventListener('click', () =>
+        this.download(
+          'y-nav-sessions.json',
+          exportSessionsAsJson(sessions),
+          'application/json'
+        )
+      );
+
+    this.container
+      .querySelectorAll<HTMLElement>('[data-session-id]')
+      .forEach(item => {
+        const session = sessions.find(
+          s => s.id === item.getAttribute('data-session-id')
+        );
+        if (!session) return;
+
+        item
+          .querySelectorAll<HTMLButtonElement>('[data-action]')
+          .forEach(button => {
+            button.addEventListener('click', async () => {
+              try {
+                await this.handleAction(
+                  tabSessions,
+                  session,
+                  button.getAttribute('data-action')
+                );
+              } catch (error) {
+                this.reportError('update session', error);
+              }
+            });
+          });
+      });
+  }
+
+  private async handleAction(
+    tabSessions: TabSessions,
+    session: ITabSession,
+    action: string | null
+  ): Promise<void> {
+    switch (action) {
+      case 'restore':
+        await tabSessions.restore(session.id);
+        window.close();
+        return;
+      case 'json':
+        this.download(
+          `${session.name}.json`,
+          exportSessionsAsJson([session]),
+          'application/json'
+        );
+        return;
+      case 'urls':
+        this.download(
+          `${session.name}.txt`,
+          exportSessionAsUrlList(session),
+          'text/plain'
+        );
+        return;
+      case 'delete':
+        await tabSessions.remove(session.id);
+        this.render(tabSessions);
+        return;
+    }
+  }
+
+  private download(fileName: string, content: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    // Revoking right away can cancel the download before it starts
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  private reportError(action: string, error: unknown): void {
+    this.errorManager.addError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+    this.errorManager.displayErrors();
+  }
+}
@@ -0,0 +1,96 @@
+import { ISettings, SETTING_RULES, SettingsManager } from '../feature/settings';
+import { escapeHtml } from '../searching/utils';
+import {
+  errorManager as defaultErrorManager,
+  IErrorManager,
+} from '../feature/error-manager';
+
+export interface ISettingField {
+  key: keyof ISettings;
+  label: string;
+  // Renders a dropdown with these values instead of a text input
+  choices?: { value: string; label: string }[];
+}
+
+/**
+ * Renders an editable list of settings. The input type follows the type of
+ * the current setting value, unless the field lists its choices.
+ */
+export class SettingsPanel {
+  private readonly errorManager: IErrorManager;
+
+  constructor(
+    private readonly container: HTMLElement,
+    private readonly settingsManager: SettingsManager,
+    private readonly fields: ISettingField[],
+    errorManager?: IErrorManager
+  ) {
+    this.errorManager = errorManager || defaultErrorManager;
+    this.render();
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <ul class="options-list">
+        ${this.fields.map(field => this.renderField(field)).join('')}
+      </ul>
+    `;
+    this.attachEventListeners();
+  }
+
+  private renderField(field: ISettingField): string {
+    const value = this.settingsManager.get(field.key);
+    const attributes = `id="setting-${field.key}" data-setting="${field.key}"`;
+    let input: string;
+    if (field.choices) {
+      const options = field.choices
+        .map(
+          choice =>
+            `<option value="${escapeHtml(choice.value)}" ${choice.value === value ? 'selected' : ''}>${escapeHtml(choice.label)}</option>`
+        )
+        .join('');
+      input = `<select ${attributes}>${options}</select>`;
+    } else if (typeof value === 'boolean') {
+      input = `<input type="checkbox" ${attributes} ${value ? 'checked' : ''} />`;
+    } else {
+      const rule = SETTING_RULES[field.key];
+      const range =
+        rule.type === 'number'
+          ? `min="${rule.min}" ${rule.max !== undefined ? `max="${rule.max}"` : ''} step="${rule.integer ? 1 : 'any'}"`
+          : '';
+      input = `<input type="number" ${range} ${attributes} value="${escapeHtml(String(value))}" />`;
+    }
+
+    return `
+      <li class="options-list-item">
+        <label for="setting-${field.key}">${escapeHtml(field.label)}</label>
+        ${input}
+      </li>`;
+  }
+
+  private attachEventListeners(): void {
+    this.container
+      .querySelectorAll<HTMLInputElement | HTMLSelectElement>('[data-setting]')
+      .forEach(input => {
+        input.addEventListener('change', async () => {
+          const key = input.getAttribute('data-setting') as keyof ISettings;
+          let value: string | number | boolean = input.value;
+          if (input instanceof HTMLInputElement) {
+            value =
+              input.type === 'checkbox' ? input.checked : Number(input.value);
+          }
+          try {
+            await this.settingsManager.update({
+              [key]: value,
+            } as Partial<ISettings>);
+          } catch (error) {
+            this.errorManager.addError(
+              `Failed to save setting: ${error instanceof Error ? error.message : 'Unknown error'}`
+            );
+            this.errorManager.displayErrors();
+            this.render();
+          }
+        });
+      });
+  }
+}
@@ -0,0 +1,52 @@
+import { KEY_BINDINGS } from '../searching/keyboard-handler';
+import { escapeHtml } from '../searching/utils';
+
+/**
+ * Popup overlay listing the keyboard shortcuts of the search box. Clicking
+ * anywhere on it closes it.
+ */
+export class ShortcutsHelp {
+  constructor(
+    private readonly container: HTMLElement,
+    toggleButton: HTMLElement
+  ) {
+    toggleButton.addEventListener('click', e => {
+      e.stopPropagation();
+      this.toggle();
+    });
+    this.container.addEventListener('click', () => this.hide());
+  }
+
+  get isVisible(): boolean {
+    return this.container.classList.contains('visible');
+  }
+
+  toggle(): void {
+    if (this.isVisible) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+
+  hide(): void {
+    this.container.innerHTML = '';
+    this.container.classList.remove('visible');
+  }
+
+  private show(): void {
+    this.container.innerHTML = `
+      <div class="shortcuts-help-title">Keyboard shortcuts</div>
+      <table class="shortcuts-help-table">
+        ${KEY_BINDINGS.map(
+          binding => `
+          <tr>
+            <td><kbd>${escapeHtml(binding.keys)}</kbd></td>
+            <td>${escapeHtml(binding.description)}</td>
+          </tr>`
+        ).join('')}
+      </table>
+    `;
+    this.container.classList.add('visible');
+  }
+}
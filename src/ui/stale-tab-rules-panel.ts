@@ -0,0 +1,90 @@
+import { StaleTabRules } from '../feature/stale-tabs';
+import { escapeHtml } from '../searching/utils';
+import {
+  errorManager as defaultErrorManager,
+  IErrorManager,
+} from '../feature/error-manager';
+import { IStaleTabRule } from '../types';
+
+export class StaleTabRulesPanel {
+  private readonly errorManager: IErrorManager;
+
+  constructor(
+    private readonly container: HTMLElement,
+    private readonly staleTabRules: StaleTabRules,
+    errorManager?: IErrorManager
+  ) {
+    this.errorManager = errorManager || defaultErrorManager;
+    this.render();
+  }
+
+  private render(): void {
+    const rules = this.staleTabRules.getRules();
+    this.container.innerHTML = `
+      <form class="options-form" id="stale-tab-rule-form">
+        <input type="text" id="stale-tab-rule-domain" placeholder="mail.google.com" autocomplete="off" />
+        <input type="number" id="stale-tab-rule-hours" placeholder="Hours, empty for never" min="1" step="any" />
+        <button type="submit" class="options-button">Add</button>
+      </form>
+      ${rules.length > 0 ? `<ul class="options-list">${rules.map(rule => this.renderRule(rule)).join('')}</ul>` : '<div class="options-empty">No domain rules</div>'}
+    `;
+    this.attachEventListeners();
+  }
+
+  private renderRule(rule: IStaleTabRule): string {
+    return `
+      <li class="options-list-item">
+        <code>${escapeHtml(rule.domain)}</code>
+        <span class="options-badge">${rule.hours === null ? 'Never' : `After ${rule.hours} h`}</span>
+        <button class="options-button secondary" data-remove-rule="${escapeHtml(rule.id)}">Remove</button>
+      </li>`;
+  }
+
+  private attachEventListeners(): void {
+    const form = this.container.querySelector('#stale-tab-rule-form');
+    const domainInput = this.container.querySelector(
+      '#stale-tab-rule-domain'
+    ) as HTMLInputElement | null;
+    const hoursInput = this.container.querySelector(
+      '#stale-tab-rule-hours'
+    ) as HTMLInputElement | null;
+
+    form?.addEventListener('submit', async e => {
+      e.preventDefault();
+      if (!domainInput || !hoursInput) {
+        return;
+      }
+      try {
+        await this.staleTabRules.setRule(
+          domainInput.value,
+          hoursInput.value.trim() === '' ? null : Number(hoursInput.value)
+        );
+        this.render();
+      } catch (error) {
+        this.reportError('add stale tab rule', error);
+      }
+    });
+
+    this.container
+      .querySelectorAll<HTMLElement>('[data-remove-rule]')
+      .forEach(button => {
+        button.addEventListener('click', async () => {
+          const ruleId = button.getAttribute('data-remove-rule');
+          if (!ruleId) return;
+          try {
+            await this.staleTabRules.removeRule(ruleId);
+            this.render();
+          } catch (error) {
+            this.reportError('remove stale tab rule', error);
+          }
+        });
+      });
+  }
+
+  private reportError(action: string, error: unknown): void {
+    this.errorManager.addError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+    this.errorManager.displayErrors();
+  }
+}
@@ -0,0 +1,120 @@
+import {
+  applyStaleTabPolicy,
+  getAutoClosedTabs,
+  getStaleTabCandidates,
+  reopenAutoClosedTab,
+} from '../feature/stale-tabs';
+import { escapeHtml } from '../searching/utils';
+import {
+  errorManager as defaultErrorManager,
+  IErrorManager,
+} from '../feature/error-manager';
+import { IAutoClosedTab, StaleTabAction } from '../types';
+
+const ACTION_LABELS: Record<StaleTabAction, string> = {
+  off: 'left open',
+  discard: 'discarded',
+  close: 'closed',
+};
+
+/**
+ * Popup panel showing how many tabs the stale tab policy would act on, and
+ * the recently auto-closed tabs, which reopen on click
+ */
+export class StaleTabsPanel {
+  private readonly errorManager: IErrorManager;
+
+  constructor(
+    private readonly container: HTMLElement,
+    errorManager?: IErrorManager
+  ) {
+    this.errorManager = errorManager || defaultErrorManager;
+    this.refresh();
+  }
+
+  private async refresh(): Promise<void> {
+    try {
+      const { action, tabs } = await getStaleTabCandidates();
+      this.render(action, tabs.length, await getAutoClosedTabs());
+    } catch (error) {
+      this.reportError('load stale tabs', error);
+    }
+  }
+
+  private render(
+    action: StaleTabAction,
+    candidateCount: number,
+    closedTabs: IAutoClosedTab[]
+  ): void {
+    if (candidateCount === 0 && closedTabs.length === 0) {
+      this.container.innerHTML = '';
+      this.container.classList.remove('visible');
+      return;
+    }
+    this.container.innerHTML = `
+      ${
+        candidateCount > 0
+          ? `<div class="stale-tabs-summary">
+              <span>${candidateCount} stale ${candidateCount === 1 ? 'tab' : 'tabs'} will be ${ACTION_LABELS[action]}</span>
+              <button class="tab-plan-button" id="stale-tabs-apply">Now</button>
+            </div>`
+          : ''
+      }
+      ${
+        closedTabs.length > 0
+          ? `<details class="session-import">
+              <summary>Recently auto-closed (${closedTabs.length})</summary>
+              <ul class="session-list">${closedTabs.map((tab, index) => this.renderClosedTab(tab, index)).join('')}</ul>
+            </details>`
+          : ''
+      }
+    `;
+    this.container.classList.add('visible');
+    this.attachEventListeners(closedTabs);
+  }
+
+  private renderClosedTab(tab: IAutoClosedTab, index: number): string {
+    return `
+      <li class="session-item">
+        <span class="session-name" title="${escapeHtml(tab.url)}">${escapeHtml(tab.title)}</span>
+        <span class="session-detail">${new Date(tab.closedAt).toLocaleString()}</span>
+        <button class="tab-plan-button secondary" data-reopen-index="${index}">Reopen</button>
+      </li>`;
+  }
+
+  private attachEventListeners(closedTabs: IAutoClosedTab[]): void {
+    this.container
+      .querySelector('#stale-tabs-apply')
+      ?.addEventListener('click', async () => {
+        try {
+          await applyStaleTabPolicy();
+          await this.refresh();
+        } catch (error) {
+          this.reportError('apply stale tab policy', error);
+        }
+      });
+
+    this.container
+      .querySelectorAll<HTMLElement>('[data-reopen-index]')
+      .forEach(button => {
+        button.addEventListener('click', async () => {
+          const closedTab =
+            closedTabs[Number(button.getAttribute('data-reopen-index'))];
+          if (!closedTab) return;
+          try {
+            await reopenAutoClosedTab(closedTab);
+            await this.refresh();
+          } catch (error) {
+            this.reportError('reopen tab', error);
+          }
+        });
+      });
+  }
+
+  private reportError(action: string, error: unknown): void {
+    this.errorManager.addError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+    this.errorManager.displayErrors();
+  }
+}
@@ -0,0 +1,100 @@
+import { TAB_GROUP_COLORS, TabGroupRules } from '../feature/tab-group-rules';
+import { escapeHtml } from '../searching/utils';
+import {
+  errorManager as defaultErrorManager,
+  IErrorManager,
+} from '../feature/error-manager';
+import { ITabGroupRule } from '../types';
+
+export class TabGroupRulesPanel {
+  private readonly errorManager: IErrorManager;
+
+  constructor(
+    private readonly container: HTMLElement,
+    private readonly tabGroupRules: TabGroupRules,
+    errorManager?: IErrorManager
+  ) {
+    this.errorManager = errorManager || defaultErrorManager;
+    this.render();
+  }
+
+  private render(): void {
+    const rules = this.tabGroupRules.getRules();
+    const colorOptions = TAB_GROUP_COLORS.map(
+      color => `<option value="${color}">${color}</option>`
+    ).join('');
+
+    this.container.innerHTML = `
+      <form class="options-form" id="tab-group-rule-form">
+        <input type="text" id="tab-group-rule-pattern" placeholder="*.atlassian.net" autocomplete="off" />
+        <input type="text" id="tab-group-rule-title" placeholder="Tickets" autocomplete="off" />
+        <select id="tab-group-rule-color">${colorOptions}</select>
+        <button type="submit" class="options-button">Add</button>
+      </form>
+      ${rules.length > 0 ? `<ul class="options-list">${rules.map(rule => this.renderRule(rule)).join('')}</ul>` : '<div class="options-empty">No grouping rules</div>'}
+    `;
+    this.attachEventListeners();
+  }
+
+  private renderRule(rule: ITabGroupRule): string {
+    return `
+      <li class="options-list-item">
+        <code>${escapeHtml(rule.pattern)}</code>
+        <span class="options-badge">${escapeHtml(rule.title)}</span>
+        <span>${rule.color}</span>
+        <button class="options-button secondary" data-remove-rule="${escapeHtml(rule.id)}">Remove</button>
+      </li>`;
+  }
+
+  private attachEventListeners(): void {
+    const form = this.container.querySelector('#tab-group-rule-form');
+    const patternInput = this.container.querySelector(
+      '#tab-group-rule-pattern'
+    ) as HTMLInputElement | null;
+    const titleInput = this.container.querySelector(
+      '#tab-group-rule-title'
+    ) as HTMLInputElement | null;
+    const colorSelect = this.container.querySelector(
+      '#tab-group-rule-color'
+    ) as HTMLSelectElement | null;
+
+    form?.addEventListener('submit', async e => {
+      e.preventDefault();
+      if (!patternInput || !titleInput || !colorSelect) {
+        return;
+      }
+      try {
+        await this.tabGroupRules.addRule(
+          patternInput.value,
+          titleInput.value,
+          colorSelect.value as chrome.tabGroups.Color
+        );
+        this.render();
+      } catch (error) {
+        this.reportError('add grouping rule', error);
+      }
+    });
+
+    this.container
+      .querySelectorAll<HTMLElement>('[data-remove-rule]')
+      .forEach(button => {
+        button.addEventListener('click', async () => {
+          const ruleId = button.getAttribute('data-remove-rule');
+          if (!ruleId) return;
+          try {
+            await this.tabGroupRules.removeRule(ruleId);
+            this.render();
+          } catch (error) {
+            this.reportError('remove grouping rule', error);
+          }
+        });
+      });
+  }
+
+  private reportError(action: string, error: unknown): void {
+    this.errorManager.addError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+    this.errorManager.displayErrors();
+  }
+}
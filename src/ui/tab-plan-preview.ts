@@ -0,0 +1,106 @@
+import { IPlannedTab, TabPlan } from '../types';
+import { escapeHtml, truncateUrl } from '../searching/utils';
+import { excludeFromPlan, TAB_PLAN_LABELS } from '../feature/tab-plan';
+
+/**
+ * Lists what a tab operation would do, with a checkbox per tab to leave it
+ * out, and applies the plan once confirmed
+ */
+export class TabPlanPreview {
+  constructor(private readonly container: HTMLElement) {}
+
+  show(plan: TabPlan, onApply: (plan: TabPlan) => Promise<void>): void {
+    this.container.innerHTML = `
+      <div class="tab-plan-header">${TAB_PLAN_LABELS[plan.kind]} preview</div>
+      <ul class="tab-plan-list">${this.renderItems(plan)}</ul>
+      <div class="tab-plan-actions">
+        <button class="tab-plan-button" id="tab-plan-apply">Apply</button>
+        <button class="tab-plan-button secondary" id="tab-plan-cancel">Cancel</button>
+      </div>
+    `;
+    this.container.classList.add('visible');
+
+    this.container
+      .querySelector('#tab-plan-apply')
+      ?.addEventListener('click', async () => {
+        const excludedTabIds = new Set(
+          Array.from(
+            this.container.querySelectorAll<HTMLInputElement>(
+              'input[data-tab-id]:not(:checked)'
+            )
+          ).map(input => Number(input.getAttribute('data-tab-id')))
+        );
+        this.hide();
+        await onApply(excludeFromPlan(plan, excludedTabIds));
+      });
+    this.container
+      .querySelector('#tab-plan-cancel')
+      ?.addEventListener('click', () => this.hide());
+  }
+
+  hide(): void {
+    this.container.innerHTML = '';
+    this.container.classList.remove('visible');
+  }
+
+  private renderItems(plan: TabPlan): string {
+    switch (plan.kind) {
+      case 'sort':
+        return plan.windows
+          .map(
+            (window, windowIndex) => `
+              ${plan.windows.length > 1 ? `<li class="tab-plan-group">Window ${windowIndex + 1}</li>` : ''}
+              ${window.tabs
+                .map((tab, index) =>
+                  this.renderItem(tab, `#${tab.index + 1} → #${index + 1}`)
+                )
+                .join('')}`
+          )
+          .join('');
+      case 'dedupe':
+        return plan.closes
+          .map(close =>
+            this.renderItem(
+              close.tab,
+              `close, keeps #${close.keptTab.index + 1}`
+            )
+          )
+          .join('');
+      case 'merge':
+        return plan.moves
+          .map(tab => this.renderItem(tab, truncateUrl(tab.url, 30)))
+          .join('');
+      case 'group':
+        return plan.groups
+          .map(
+            group => `
+              <li class="tab-plan-group">${escapeHtml(group.title)}</li>
+              ${group.tabs.map(tab => this.renderItem(tab, truncateUrl(tab.url, 30))).join('')}`
+          )
+          .join('');
+      case 'ungroup':
+        return plan.tabs
+          .map(tab => this.renderItem(tab, truncateUrl(tab.url, 30)))
+          .join('');
+      case 'split':
+        return plan.windows
+          .map(
+            window => `
+              <li class="tab-plan-group">New window: ${escapeHtml(window.title)}</li>
+              ${window.tabs.map(tab => this.renderItem(tab, truncateUrl(tab.url, 30))).join('')}`
+          )
+          .join('');
+    }
+  }
+
+  private renderItem(tab: IPlannedTab, detail: string): string {
+    return `
+      <li class="tab-plan-item">
+        <label>
+          <input type="checkbox" data-tab-id="${tab.tabId}" checked />
+          <span class="tab-plan-title">${escapeHtml(tab.title)}</span>
+          <span class="tab-plan-detail">${escapeHtml(detail)}</span>
+        </label>
+      </li>`;
+  }
+}
@@ -0,0 +1,169 @@
+import { ALL_EXCLUSION_SCOPES, UrlExclusion } from '../feature/url-exclusion';
+import { escapeHtml } from '../searching/utils';
+import {
+  errorManager as defaultErrorManager,
+  IErrorManager,
+} from '../feature/error-manager';
+import { ExclusionRuleType, ExclusionScope, IExclusionRule } from '../types';
+
+const RULE_TYPE_LABELS: Record<ExclusionRuleType, string> = {
+  prefix: 'URL prefix',
+  glob: 'Wildcard',
+  regex: 'Regex',
+  host: 'Exact host',
+};
+
+const SCOPE_LABELS: Record<ExclusionScope, string> = {
+  record: 'Record visits',
+  search: 'Search',
+  import: 'History import',
+};
+
+const PATTERN_PLACEHOLDERS: Record<ExclusionRuleType, string> = {
+  prefix: 'example.com/private',
+  glob: '*.corp.internal/*',
+  regex: '/oauth/callback|[?&]token=',
+  host: 'mail.example.com',
+};
+
+export class UrlExclusionPanel {
+  private readonly errorManager: IErrorManager;
+
+  constructor(
+    private readonly container: HTMLElement,
+    private readonly urlExclusion: UrlExclusion,
+    errorManager?: IErrorManager
+  ) {
+    this.errorManager = errorManager || defaultErrorManager;
+    this.render();
+  }
+
+  private render(): void {
+    const rules = this.urlExclusion.getRules();
+    const typeOptions = Object.entries(RULE_TYPE_LABELS)
+      .map(([type, label]) => `<option value="${type}">${label}</option>`)
+      .join('');
+
+    this.container.innerHTML = `
+      <form class="options-form" id="url-exclusion-form">
+        <select id="url-exclusion-type">${typeOptions}</select>
+        <input type="text" id="url-exclusion-input" placeholder="${PATTERN_PLACEHOLDERS.prefix}" autocomplete="off" />
+        <button type="submit" class="options-button">Add</button>
+      </form>
+      <div class="options-scopes" id="url-exclusion-scopes">
+        Exclude from: ${this.renderScopeCheckboxes('new', ALL_EXCLUSION_SCOPES)}
+      </div>
+      ${rules.length > 0 ? `<ul class="options-list">${rules.map(rule => this.renderRule(rule)).join('')}</ul>` : '<div class="options-empty">No URLs excluded</div>'}
+    `;
+    this.attachEventListeners();
+  }
+
+  private renderRule(rule: IExclusionRule): string {
+    return `
+      <li class="options-list-item" data-rule-id="${escapeHtml(rule.id)}">
+        <span class="options-badge">${RULE_TYPE_LABELS[rule.type]}</span>
+        <code>${escapeHtml(rule.pattern)}</code>
+        <span class="options-scopes">${this.renderScopeCheckboxes(rule.id, rule.scopes)}</span>
+        <button class="options-button secondary" data-remove-rule="${escapeHtml(rule.id)}">Remove</button>
+      </li>`;
+  }
+
+  private renderScopeCheckboxes(
+    name: string,
+    checkedScopes: ExclusionScope[]
+  ): string {
+    return ALL_EXCLUSION_SCOPES.map(
+      scope => `
+        <label>
+          <input type="checkbox" name="${escapeHtml(name)}" value="${scope}" ${checkedScopes.includes(scope) ? 'checked' : ''} />
+          ${SCOPE_LABELS[scope]}
+        </label>`
+    ).join('');
+  }
+
+  private getCheckedScopes(root: Element, name: string): ExclusionScope[] {
+    return Array.from(
+      root.querySelectorAll<HTMLInputElement>(
+        `input[type="checkbox"][name="${name}"]:checked`
+      )
+    ).map(input => input.value as ExclusionScope);
+  }
+
+  private attachEventListeners(): void {
+    const form = this.container.querySelector('#url-exclusion-form');
+    const typeSelect = this.container.querySelector(
+      '#url-exclusion-type'
+    ) as HTMLSelectElement | null;
+    const input = this.container.querySelector(
+      '#url-exclusion-input'
+    ) as HTMLInputElement | null;
+
+    typeSelect?.addEventListener('change', () => {
+      if (input) {
+        input.placeholder =
+          PATTERN_PLACEHOLDERS[typeSelect.value as ExclusionRuleType];
+      }
+    });
+
+    form?.addEventListener('submit', async e => {
+      e.preventDefault();
+      if (!typeSelect || !input || input.value.trim().length === 0) {
+        return;
+      }
+      try {
+        await this.urlExclusion.addRule(
+          typeSelect.value as ExclusionRuleType,
+          input.value,
+          this.getCheckedScopes(this.container, 'new')
+        );
+        this.render();
+      } catch (error) {
+        this.reportError('add exclusion rule', error);
+      }
+    });
+
+    this.container
+      .querySelectorAll<HTMLElement>('[data-rule-id]')
+      .forEach(item => {
+        const ruleId = item.getAttribute('data-rule-id');
+        if (!ruleId) return;
+
+        item
+          .querySelectorAll<HTMLInputElement>('input[type="checkbox"]')
+          .forEach(checkbox => {
+            checkbox.addEventListener('change', async () => {
+              try {
+                const updated = await this.urlExclusion.updateRuleScopes(
+                  ruleId,
+                  this.getCheckedScopes(item, ruleId)
+                );
+                if (!updated) {
+                  // A rule needs at least one scope, restore the last state
+                  this.render();
+                }
+              } catch (error) {
+                this.reportError('update exclusion rule', error);
+              }
+            });
+          });
+
+        item
+          .querySelector('[data-remove-rule]')
+          ?.addEventListener('click', async () => {
+            try {
+              await this.urlExclusion.removeRule(ruleId);
+              this.render();
+            } catch (error) {
+              this.reportError('remove exclusion rule', error);
+            }
+          });
+      });
+  }
+
+  private reportError(action: string, error: unknown): void {
+    this.errorManager.addError(
+      `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+    this.errorManager.displayErrors();
+  }
+}
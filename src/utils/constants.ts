@@ -1,14 +1,75 @@
 export const MAX_BROWSER_HISTORY_AGE_IN_DAYS = 365;
 export const MAX_BROWSER_HISTORY_COUNT = 1_000_000;
+export const HISTORY_VISITS_BATCH_SIZE = 50; // Pages whose visits are looked up at once
 
 export enum StorageKeys {
   VISIT_DATA = 'visit_data',
   ERROR_MESSAGES = 'error_messages',
   EXCLUDED_URLS = 'excluded_urls',
+  HISTORY_SYNC_TIME = 'history_sync_time',
+  SETTINGS = 'settings',
+  SEARCH_SELECTIONS = 'search_selections',
+  PINNED_URLS = 'pinned_urls',
+  TAB_UNDO_SNAPSHOT = 'tab_undo_snapshot',
+  TAB_GROUP_RULES = 'tab_group_rules',
+  TAB_SESSIONS = 'tab_sessions',
+  STALE_TAB_RULES = 'stale_tab_rules',
+  AUTO_CLOSED_TABS = 'auto_closed_tabs',
+  URL_NORMALIZATION = 'url_normalization',
+  VISIT_DATA_KEY_VERSION = 'visit_data_key_version',
+  DELETED_BOOKMARKS = 'deleted_bookmarks',
+  TAB_LIMIT_EXCEEDED = 'tab_limit_exceeded',
 }
 
+export const MAX_EXCLUSION_REGEX_LENGTH = 500;
 export const SEARCH_MAX_RESULTS = 20;
 export const SEARCH_MAX_RESULT_TO_DISPLAY = 8;
 export const SEARCH_FUSE_RESULT_WEIGHT = 0.7;
-export const SEARCH_VISIT_COUNT_WEIGHT = 0.3;
-export const SEARCH_MAX_CLICK_BOOST = 2.0;
+export const SEARCH_FRECENCY_WEIGHT = 0.6;
+export const SEARCH_FRECENCY_HALF_LIFE_DAYS = 14;
+export const SEARCH_MAX_CLICK_BOOST = 0.5;
+export const SEARCH_CLICK_BOOST_HALF_PICKS = 3; // Picks that earn half the maximum click boost
+export const SEARCH_SELECTION_MAX_QUERIES = 500;
+export const SEARCH_SELECTION_MAX_URLS_PER_QUERY = 5;
+export const SEARCH_SELECTION_MIN_PREFIX_LENGTH = 2;
+export const HOME_SECTION_MAX_ENTRIES = 5; // Most and recently visited shown on the home view
+export const VISIT_DEBOUNCE_SECONDS = 5;
+export const SELECTION_PAGE_SIZE = 5; // Results skipped by PageUp and PageDown
+export const COPIED_FEEDBACK_MS = 1000;
+export const BOOKMARK_FOLDER_URL_PREFIX = 'bookmark-folder:'; // URL of folder results
+
+// Query parameters that only track where a visit came from
+export const TRACKING_PARAM_PREFIXES = ['utm_'];
+export const TRACKING_PARAMS = [
+  'gclid',
+  'dclid',
+  'fbclid',
+  'msclkid',
+  'mc_cid',
+  'mc_eid',
+  'igshid',
+  '_ga',
+  '_gl',
+  'yclid',
+  'ref_src',
+];
+
+export const UNDO_TAB_OPERATION_COMMAND = 'undo-tab-operation';
+export const SPLIT_WINDOW_BY_DOMAIN_COMMAND = 'split-window-by-domain';
+export const SPLIT_WINDOW_BY_GROUP_COMMAND = 'split-window-by-group';
+export const EDIT_VISIT_ENTRY_MESSAGE = 'edit-visit-entry';
+// Same as chrome.tabGroups.TAB_GROUP_ID_NONE, usable without the Chrome API
+export const TAB_GROUP_ID_NONE = -1;
+export const TAB_GROUP_MIN_DOMAIN_TABS = 2; // Smaller domain groups are left ungrouped
+
+export const STALE_TAB_ALARM = 'stale-tab-check';
+export const STALE_TAB_CHECK_INTERVAL_MINUTES = 15;
+export const MAX_AUTO_CLOSED_TABS = 50;
+
+export const TAB_COUNT_BADGE_COLOR = '#5f6368';
+export const TAB_LIMIT_BADGE_COLOR = '#d93025';
+
+export const HOUR_IN_MS = 60 * 60 * 1000;
+export const DAY_IN_MS = 24 * HOUR_IN_MS;
+export const TAB_UNDO_MAX_AGE_MS = HOUR_IN_MS; // Tab operations older than this cannot be undone
+export const MAX_VISIT_BUCKETS = 60; // Days of visit history kept per URL
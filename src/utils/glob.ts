@@ -0,0 +1,15 @@
+/**
+ * Converts a wildcard pattern into an anchored, case-insensitive regex.
+ * `*` matches any run of characters and `?` matches a single character.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  const source = glob
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+};
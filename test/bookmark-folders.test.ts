@@ -0,0 +1,79 @@
+import {
+  buildFolderEntries,
+  formatFolderPath,
+} from '../src/searching/bookmark-folders';
+import { VisitStorageManager } from '../src/searching/visit-storage-manager';
+import { createEntry } from './test-helpers';
+
+describe('buildFolderEntries', () => {
+  it('creates a result per folder that opens the bookmarks inside it', () => {
+    const standup = ['Bookmarks bar', 'Work', 'Standup'];
+    const folders = buildFolderEntries([
+      {
+        entry: createEntry({
+          isBookmark: true,
+          url: 'https://a.com/',
+          frecency: 2,
+        }),
+        folderPath: standup,
+      },
+      {
+        entry: createEntry({
+          isBookmark: true,
+          url: 'https://b.com/',
+          lastVisited: 5,
+        }),
+        folderPath: standup,
+      },
+      {
+        entry: createEntry({ isBookmark: true, url: 'https://c.com/' }),
+        folderPath: [],
+      },
+    ]);
+
+    expect(folders).toEqual([
+      expect.objectContaining({
+        url: 'bookmark-folder:Bookmarks%20bar/Work/Standup',
+        title: 'Standup',
+        folderPath: 'Bookmarks bar › Work',
+        frecency: 2,
+        lastVisited: 5,
+        visitCount: 0,
+        folderUrls: ['https://a.com/', 'https://b.com/'],
+      }),
+    ]);
+  });
+
+  it('keeps folders with the same name apart', () => {
+    const folders = buildFolderEntries([
+      {
+        entry: createEntry({ isBookmark: true }),
+        folderPath: ['Work', 'Docs'],
+      },
+      {
+        entry: createEntry({ isBookmark: true }),
+        folderPath: ['Home', 'Docs'],
+      },
+    ]);
+    expect(folders.map(folder => folder.folderPath)).toEqual(['Work', 'Home']);
+  });
+});
+
+describe('VisitStorageManager.applyBookmarks folders', () => {
+  it('records the folder of bookmarks and follows moves', async () => {
+    const visitStorageManager = await VisitStorageManager.getInstance();
+    const url = 'https://example.com/';
+    const apply = (folderPath: string[]) =>
+      visitStorageManager.applyBookmarks(
+        new Map([[url, { title: 'Example', lastVisited: 0, folderPath }]])
+      );
+
+    apply(['Work']);
+    expect(visitStorageManager.getEntry(url)?.bookmarkFolder).toEqual(['Work']);
+    expect(apply(['Work'])).toBe(0);
+    expect(apply(['Work', 'Standup'])).toBe(1);
+    expect(
+      formatFolderPath(visitStorageManager.getEntry(url)?.bookmarkFolder ?? [])
+    ).toBe('Work › Standup');
+  });
+});
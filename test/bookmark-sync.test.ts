@@ -0,0 +1,121 @@
+import { IBookmarkInfo, IVisitData } from '../src/types';
+import { loadVisitData } from './test-helpers';
+
+const bookmark = (title: string, folderPath: string[] = []): IBookmarkInfo => ({
+  title,
+  lastVisited: 100,
+  folderPath,
+});
+
+describe('VisitStorageManager.applyBookmarks', () => {
+  it('adds entries for new bookmarks and flags visited pages', async () => {
+    const visitStorageManager = await loadVisitData({
+      'https://visited.com/': { count: 2, lastVisited: 500, isBookmark: false },
+    });
+
+    const changedCount = visitStorageManager.applyBookmarks(
+      new Map([
+        ['https://new.com/', bookmark('New', ['Work'])],
+        ['https://visited.com/', bookmark('Visited')],
+      ])
+    );
+
+    expect(changedCount).toBe(2);
+    expect(visitStorageManager.getAllVisitData()['https://new.com/']).toEqual({
+      count: 0,
+      lastVisited: 100,
+      customTitle: 'New',
+      isBookmark: true,
+      bookmarkFolder: ['Work'],
+    });
+    expect(
+      visitStorageManager.getAllVisitData()['https://visited.com/']
+    ).toMatchObject({
+      count: 2,
+      customTitle: 'Visited',
+      isBookmark: true,
+    });
+  });
+
+  it('follows renamed and moved bookmarks', async () => {
+    const visitStorageManager = await loadVisitData({
+      'https://a.com/': {
+        count: 1,
+        lastVisited: 500,
+        customTitle: 'Old',
+        isBookmark: true,
+        bookmarkFolder: ['Old folder'],
+      },
+    });
+
+    visitStorageManager.applyBookmarks(
+      new Map([['https://a.com/', bookmark('New', ['New folder'])]])
+    );
+
+    expect(
+      visitStorageManager.getAllVisitData()['https://a.com/']
+    ).toMatchObject({
+      customTitle: 'New',
+      bookmarkFolder: ['New folder'],
+    });
+  });
+
+  it('unflags visited pages and removes unvisited ones with their bookmark', async () => {
+    const visitStorageManager = await loadVisitData({
+      'https://visited.com/': {
+        count: 3,
+        lastVisited: 500,
+        customTitle: 'Bookmark',
+        isBookmark: true,
+        bookmarkFolder: ['Work'],
+      },
+      'https://unvisited.com/': {
+        count: 0,
+        lastVisited: 100,
+        isBookmark: true,
+      },
+    });
+
+    expect(visitStorageManager.applyBookmarks(new Map())).toBe(2);
+    expect(
+      visitStorageManager.getAllVisitData()['https://visited.com/']
+    ).toEqual({
+      count: 3,
+      lastVisited: 500,
+      isBookmark: false,
+    });
+    expect(
+      visitStorageManager.getAllVisitData()['https://unvisited.com/']
+    ).toBeUndefined();
+  });
+
+  it('reports no changes when the bookmarks are unchanged', async () => {
+    const visitStorageManager = await loadVisitData({});
+    const bookmarks = new Map([['https://a.com/', bookmark('A', ['Work'])]]);
+
+    visitStorageManager.applyBookmarks(bookmarks);
+
+    expect(visitStorageManager.applyBookmarks(bookmarks)).toBe(0);
+  });
+});
+
+describe('VisitStorageManager.migrateBookmarkFlags', () => {
+  it('flags entries stored before the flag by their bookmark title', async () => {
+    // Entries stored by versions without the flag
+    const visitStorageManager = await loadVisitData({
+      'https://titled.com/': {
+        count: 1,
+        lastVisited: 500,
+        customTitle: 'Bookmark',
+      },
+      'https://plain.com/': { count: 1, lastVisited: 500 },
+    } as unknown as IVisitData);
+
+    expect(
+      visitStorageManager.getAllVisitData()['https://titled.com/']?.isBookmark
+    ).toBe(true);
+    expect(
+      visitStorageManager.getAllVisitData()['https://plain.com/']?.isBookmark
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,216 @@
+import { StorageController } from '../src/storage-controller';
+import { SearchRank } from '../src/searching/search-rank';
+import { DAY_IN_MS, HOUR_IN_MS, StorageKeys } from '../src/utils/constants';
+import { loadVisitData, mockHistory } from './test-helpers';
+
+const NOW = Date.now();
+const SYNC_TIME = NOW - 1000;
+
+describe('StorageController.sync', () => {
+  beforeEach(async () => {
+    await chrome.storage.local.set({
+      [StorageKeys.HISTORY_SYNC_TIME]: SYNC_TIME,
+    });
+  });
+
+  it('imports only the visits after the high-water mark', async () => {
+    const history = mockHistory(
+      [
+        {
+          url: 'https://once.com/',
+          visitCount: 1,
+          lastVisitTime: NOW - 50,
+        },
+        {
+          url: 'https://often.com/',
+          visitCount: 5,
+          lastVisitTime: NOW - 50,
+        },
+      ],
+      { 'https://often.com/': [SYNC_TIME - 10, NOW - 60, NOW - 50] }
+    );
+    const visitStorageManager = await loadVisitData({});
+
+    await new StorageController().sync();
+
+    // A page visited once needs no lookup of its visits
+    expect(history.getVisits).toHaveBeenCalledTimes(1);
+    expect(visitStorageManager.getVisitCount('https://once.com/')).toBe(1);
+    expect(visitStorageManager.getVisitCount('https://often.com/')).toBe(2);
+  });
+
+  it('imports visits older than the last recorded visit', async () => {
+    const history = mockHistory(
+      [{ url: 'https://missed.com/', visitCount: 3, lastVisitTime: NOW - 50 }],
+      { 'https://missed.com/': [SYNC_TIME - 10, NOW - 200, NOW - 50] }
+    );
+    const visitStorageManager = await loadVisitData({
+      'https://missed.com/': {
+        count: 4,
+        lastVisited: NOW - 100,
+        isBookmark: false,
+      },
+    });
+
+    await new StorageController().sync();
+
+    expect(history.getVisits).toHaveBeenCalledTimes(1);
+    expect(visitStorageManager.getVisitCount('https://missed.com/')).toBe(6);
+  });
+
+  it('skips visits up to a mark advanced by recorded visits', async () => {
+    const history = mockHistory(
+      [
+        {
+          url: 'https://recorded.com/',
+          visitCount: 2,
+          lastVisitTime: NOW - 200,
+        },
+        {
+          url: 'https://partly.com/',
+          visitCount: 2,
+          lastVisitTime: NOW - 50,
+        },
+      ],
+      { 'https://partly.com/': [NOW - 150, NOW - 50] }
+    );
+    const visitStorageManager = await loadVisitData({});
+    const storageController = new StorageController();
+
+    await storageController.advanceHighWaterMark(NOW - 100);
+    await storageController.advanceHighWaterMark(NOW - 500);
+    await storageController.sync();
+
+    expect(history.getVisits).toHaveBeenCalledTimes(1);
+    expect(
+      visitStorageManager.getEntry('https://recorded.com/')
+    ).toBeUndefined();
+    expect(visitStorageManager.getVisitCount('https://partly.com/')).toBe(1);
+  });
+});
+
+describe('StorageController.sync without a high-water mark', () => {
+  it('imports every page at the times of its visits', async () => {
+    const recentVisits = Array.from(
+      { length: 20 },
+      (_, i) => NOW - i * HOUR_IN_MS
+    );
+    const oldVisits = Array.from(
+      { length: 100 },
+      (_, i) => NOW - (300 + i / 10) * DAY_IN_MS
+    );
+    const history = mockHistory(
+      [
+        { url: 'https://recent.com/', visitCount: 20, lastVisitTime: NOW },
+        {
+          url: 'https://old.com/',
+          visitCount: 100,
+          lastVisitTime: oldVisits[0] ?? 0,
+        },
+      ],
+      { 'https://recent.com/': recentVisits, 'https://old.com/': oldVisits }
+    );
+    const visitStorageManager = await loadVisitData({});
+
+    await new StorageController().sync();
+
+    expect(history.getVisits).toHaveBeenCalledTimes(2);
+    const recent = visitStorageManager.getEntry('https://recent.com/');
+    const old = visitStorageManager.getEntry('https://old.com/');
+    expect(recent?.count).toBe(20);
+    expect(old?.count).toBe(100);
+    if (!recent || !old) {
+      throw new Error('History was not imported');
+    }
+    expect(SearchRank.calculateFrecency(recent, 14, NOW)).toBeGreaterThan(
+      SearchRank.calculateFrecency(old, 14, NOW)
+    );
+  });
+});
+
+describe('StorageController.handleVisitRemoved', () => {
+  it('searches the remaining history once per host', async () => {
+    const history = mockHistory([
+      { url: 'https://a.com/kept?x=1', visitCount: 2, lastVisitTime: 300 },
+      { url: 'https://sub.a.com/kept', visitCount: 5, lastVisitTime: 400 },
+    ]);
+    const visitStorageManager = await loadVisitData({
+      'https://a.com/kept': { count: 6, lastVisited: 500, isBookmark: false },
+      'https://a.com/gone': { count: 3, lastVisited: 500, isBookmark: false },
+      'https://b.com/': { count: 1, lastVisited: 500, isBookmark: true },
+    });
+
+    await new StorageController().handleVisitRemoved({
+      allHistory: false,
+      urls: [
+        'https://a.com/kept?x=2',
+        'https://a.com/gone',
+        'https://a.com/gone#top',
+        'https://b.com/',
+      ],
+    });
+
+    expect(history.search).toHaveBeenCalledTimes(2);
+    expect(visitStorageManager.getEntry('https://a.com/kept')).toMatchObject({
+      count: 2,
+      lastVisited: 300,
+    });
+    expect(visitStorageManager.getEntry('https://a.com/gone')).toBeUndefined();
+    // Bookmarks are kept by default
+    expect(visitStorageManager.getEntry('https://b.com/')).toMatchObject({
+      count: 0,
+      isBookmark: true,
+    });
+  });
+});
+
+describe('VisitStorageManager.applyHistoryRemoval', () => {
+  const URL = 'https://example.com/';
+
+  it('lowers the count to the visits left in history', async () => {
+    const visitStorageManager = await loadVisitData({
+      [URL]: {
+        count: 5,
+        lastVisited: 500,
+        isBookmark: false,
+        visitBuckets: { '1': 3, '2': 2 },
+      },
+    });
+
+    expect(
+      visitStorageManager.applyHistoryRemoval(
+        URL,
+        { count: 2, lastVisited: 200 },
+        true
+      )
+    ).toBe(true);
+    expect(visitStorageManager.getEntry(URL)).toEqual({
+      count: 2,
+      lastVisited: 200,
+      isBookmark: false,
+      visitBuckets: { '2': 2 },
+    });
+  });
+
+  it('removes bookmarks unless they are kept', async () => {
+    const entry = { count: 5, lastVisited: 500, isBookmark: true };
+    let visitStorageManager = await loadVisitData({ [URL]: { ...entry } });
+    visitStorageManager.applyHistoryRemoval(URL, null, true);
+    expect(visitStorageManager.getEntry(URL)).toEqual({
+      count: 0,
+      lastVisited: 0,
+      isBookmark: true,
+    });
+
+    visitStorageManager = await loadVisitData({ [URL]: { ...entry } });
+    visitStorageManager.applyHistoryRemoval(URL, null, false);
+    expect(visitStorageManager.getEntry(URL)).toBeUndefined();
+  });
+
+  it('ignores URLs without visit data', async () => {
+    const visitStorageManager = await loadVisitData({});
+    expect(visitStorageManager.applyHistoryRemoval(URL, null, true)).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,133 @@
+import {
+  getOpenDisposition,
+  IKeyboardActions,
+  KeyboardHandler,
+} from '../src/searching/keyboard-handler';
+import { toMarkdownLink } from '../src/searching/utils';
+
+function createKeyEvent(
+  key: string,
+  overrides: Partial<KeyboardEvent> = {}
+): KeyboardEvent {
+  return {
+    key,
+    code: '',
+    ctrlKey: false,
+    metaKey: false,
+    shiftKey: false,
+    altKey: false,
+    preventDefault: jest.fn(),
+    ...overrides,
+  } as unknown as KeyboardEvent;
+}
+
+function createActions(hasSelection = true): jest.Mocked<IKeyboardActions> {
+  return {
+    open: jest.fn(),
+    move: jest.fn(),
+    moveByPage: jest.fn(),
+    moveToEdge: jest.fn().mockReturnValue(hasSelection),
+    toggleMark: jest.fn().mockReturnValue(hasSelection),
+    extendMarks: jest.fn(),
+    openInGroup: jest.fn(),
+    entryAction: jest.fn(),
+    toggleHelp: jest.fn(),
+    escape: jest.fn(),
+  };
+}
+
+describe('getOpenDisposition', () => {
+  const modifiers = {
+    ctrlKey: false,
+    metaKey: false,
+    shiftKey: false,
+    altKey: false,
+  };
+
+  it('maps modifiers to where the result opens', () => {
+    expect(getOpenDisposition(modifiers)).toBe('foreground');
+    expect(getOpenDisposition({ ...modifiers, ctrlKey: true })).toBe(
+      'background'
+    );
+    expect(getOpenDisposition({ ...modifiers, metaKey: true })).toBe(
+      'background'
+    );
+    expect(getOpenDisposition({ ...modifiers, shiftKey: true })).toBe(
+      'newWindow'
+    );
+    expect(
+      getOpenDisposition({ ...modifiers, ctrlKey: true, shiftKey: true })
+    ).toBe('incognito');
+    expect(getOpenDisposition({ ...modifiers, altKey: true })).toBe(
+      'currentTab'
+    );
+  });
+});
+
+describe('KeyboardHandler', () => {
+  it('opens with the disposition of the held modifiers', () => {
+    const actions = createActions();
+    new KeyboardHandler(actions).handleKeyDown(
+      createKeyEvent('Enter', { ctrlKey: true })
+    );
+    expect(actions.open).toHaveBeenCalledWith('background');
+  });
+
+  it('moves the selection with Tab, paging and edge keys', () => {
+    const actions = createActions();
+    const handler = new KeyboardHandler(actions);
+    handler.handleKeyDown(createKeyEvent('Tab', { shiftKey: true }));
+    handler.handleKeyDown(createKeyEvent('PageDown'));
+    handler.handleKeyDown(createKeyEvent('End'));
+
+    expect(actions.move).toHaveBeenCalledWith(-1);
+    expect(actions.moveByPage).toHaveBeenCalledWith(1);
+    expect(actions.moveToEdge).toHaveBeenCalledWith('last');
+  });
+
+  it('leaves Home to the search box without a selection', () => {
+    const event = createKeyEvent('Home');
+    new KeyboardHandler(createActions(false)).handleKeyDown(event);
+    expect(event.preventDefault).not.toHaveBeenCalled();
+  });
+
+  it('marks with Space only while a result is selected', () => {
+    const typed = createKeyEvent(' ');
+    new KeyboardHandler(createActions(false)).handleKeyDown(typed);
+    expect(typed.preventDefault).not.toHaveBeenCalled();
+
+    const marked = createKeyEvent(' ');
+    new KeyboardHandler(createActions()).handleKeyDown(marked);
+    expect(marked.preventDefault).toHaveBeenCalled();
+  });
+
+  it('extends marks with Shift+Arrow instead of moving', () => {
+    const actions = createActions();
+    new KeyboardHandler(actions).handleKeyDown(
+      createKeyEvent('ArrowUp', { shiftKey: true })
+    );
+    expect(actions.extendMarks).toHaveBeenCalledWith(-1);
+    expect(actions.move).not.toHaveBeenCalled();
+  });
+
+  it('maps copy shortcuts by key code', () => {
+    const actions = createActions();
+    const handler = new KeyboardHandler(actions);
+    handler.handleKeyDown(createKeyEvent('ç', { code: 'KeyC', altKey: true }));
+    handler.handleKeyDown(
+      createKeyEvent('Ç', { code: 'KeyC', altKey: true, shiftKey: true })
+    );
+    expect(actions.entryAction.mock.calls).toEqual([
+      ['copyUrl'],
+      ['copyMarkdown'],
+    ]);
+  });
+});
+
+describe('toMarkdownLink', () => {
+  it('escapes brackets in the title and parentheses in the URL', () => {
+    expect(
+      toMarkdownLink('[Draft] Notes', 'https://en.wikipedia.org/wiki/A_(b)')
+    ).toBe('[\\[Draft\\] Notes](https://en.wikipedia.org/wiki/A_%28b%29)');
+  });
+});
@@ -0,0 +1,36 @@
+import { PinnedUrls } from '../src/searching/pinned-urls';
+import { StorageKeys } from '../src/utils/constants';
+
+describe('PinnedUrls', () => {
+  let pinnedUrls: PinnedUrls;
+
+  beforeEach(async () => {
+    pinnedUrls = await PinnedUrls.getInstance();
+    await pinnedUrls.loadFromStorage();
+  });
+
+  it('pins URLs in order and unpins them again', async () => {
+    expect(await pinnedUrls.togglePin('https://a.com/')).toBe(true);
+    expect(await pinnedUrls.togglePin('https://b.com/')).toBe(true);
+    expect(pinnedUrls.getPinnedUrls()).toEqual([
+      'https://a.com/',
+      'https://b.com/',
+    ]);
+
+    expect(await pinnedUrls.togglePin('https://a.com/')).toBe(false);
+    expect(pinnedUrls.isPinned('https://a.com/')).toBe(false);
+    expect(pinnedUrls.getPinnedUrls()).toEqual(['https://b.com/']);
+  });
+
+  it('saves pins and ignores invalid stored values', async () => {
+    await pinnedUrls.togglePin('https://a.com/');
+    const result = await chrome.storage.local.get(StorageKeys.PINNED_URLS);
+    expect(result[StorageKeys.PINNED_URLS]).toEqual(['https://a.com/']);
+
+    await chrome.storage.local.set({
+      [StorageKeys.PINNED_URLS]: ['https://b.com/', 42, null],
+    });
+    await pinnedUrls.loadFromStorage();
+    expect(pinnedUrls.getPinnedUrls()).toEqual(['https://b.com/']);
+  });
+});
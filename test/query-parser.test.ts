@@ -0,0 +1,155 @@
+import {
+  hasFilters,
+  matchesFilters,
+  matchesTab,
+  parseQuery,
+} from '../src/searching/query-parser';
+import { createEntry } from './test-helpers';
+
+const REPO = {
+  url: 'https://github.com/yehuizhang/chrome-tidy-tabs',
+  title: 'Tidy Tabs Repository',
+  visitCount: 3,
+  lastVisited: Date.parse('2026-03-01T12:00:00'),
+};
+
+describe('parseQuery', () => {
+  it('keeps plain text as free text without filters', () => {
+    const query = parseQuery('jira board');
+
+    expect(query.text).toBe('jira board');
+    expect(hasFilters(query)).toBe(false);
+  });
+
+  it('extracts site filters and normalizes them', () => {
+    const query = parseQuery('site:https://www.GitHub.com/foo pulls');
+
+    expect(query.sites).toEqual(['github.com']);
+    expect(query.text).toBe('pulls');
+  });
+
+  it('extracts source filters with aliases and without duplicates', () => {
+    const query = parseQuery('in:bookmarks in:tab in:tabs in:history');
+
+    expect(query.sources).toEqual(['bookmarks', 'tabs', 'history']);
+    expect(query.text).toBe('');
+  });
+
+  it('keeps unknown operators as free text', () => {
+    const query = parseQuery('in:downloads after:yesterday site:');
+
+    expect(query.sources).toEqual([]);
+    expect(query.after).toBeUndefined();
+    expect(query.sites).toEqual([]);
+    expect(query.text).toBe('in:downloads after:yesterday site:');
+  });
+
+  it('extracts negated terms and phrases', () => {
+    const query = parseQuery('docs -draft -"old version"');
+
+    expect(query.excludedTerms).toEqual(['draft', 'old version']);
+    expect(query.text).toBe('docs');
+  });
+
+  it('extracts quoted phrases, including unterminated ones', () => {
+    const query = parseQuery('"release notes" api "weekly sync');
+
+    expect(query.phrases).toEqual(['release notes', 'weekly sync']);
+    expect(query.text).toBe('api');
+  });
+
+  it('parses after: dates as local midnight', () => {
+    const query = parseQuery('after:2026-01-01');
+
+    expect(query.after).toBe(new Date(2026, 0, 1).getTime());
+    expect(hasFilters(query)).toBe(true);
+  });
+
+  it('treats a lone dash as free text', () => {
+    expect(parseQuery('a - b').text).toBe('a - b');
+  });
+});
+
+describe('matchesFilters', () => {
+  it('matches a site and its subdomains only', () => {
+    const query = parseQuery('site:github.com');
+
+    expect(matchesFilters(createEntry(REPO), query)).toBe(true);
+    expect(
+      matchesFilters(
+        createEntry({ ...REPO, url: 'https://gist.github.com/x' }),
+        query
+      )
+    ).toBe(true);
+    expect(
+      matchesFilters(
+        createEntry({ ...REPO, url: 'https://notgithub.com/x' }),
+        query
+      )
+    ).toBe(false);
+  });
+
+  it('matches any of the requested sources', () => {
+    const query = parseQuery('in:bookmarks in:tabs');
+
+    expect(matchesFilters(createEntry(REPO), query)).toBe(false);
+    expect(
+      matchesFilters(createEntry({ ...REPO, isBookmark: true }), query)
+    ).toBe(true);
+    expect(
+      matchesFilters(createEntry({ ...REPO, isOpenTab: true }), query)
+    ).toBe(true);
+  });
+
+  it('treats visited entries as history', () => {
+    const query = parseQuery('in:history');
+
+    expect(matchesFilters(createEntry(REPO), query)).toBe(true);
+    expect(matchesFilters(createEntry({ ...REPO, visitCount: 0 }), query)).toBe(
+      false
+    );
+  });
+
+  it('drops entries containing negated terms in title or url', () => {
+    expect(matchesFilters(createEntry(REPO), parseQuery('-tidy'))).toBe(false);
+    expect(matchesFilters(createEntry(REPO), parseQuery('-yehuizhang'))).toBe(
+      false
+    );
+    expect(matchesFilters(createEntry(REPO), parseQuery('-gitlab'))).toBe(true);
+  });
+
+  it('requires phrases to appear as-is, ignoring case', () => {
+    expect(matchesFilters(createEntry(REPO), parseQuery('"tabs repo"'))).toBe(
+      true
+    );
+    expect(matchesFilters(createEntry(REPO), parseQuery('"repo tabs"'))).toBe(
+      false
+    );
+  });
+
+  it('filters by last visit date', () => {
+    expect(
+      matchesFilters(createEntry(REPO), parseQuery('after:2026-02-01'))
+    ).toBe(true);
+    expect(
+      matchesFilters(createEntry(REPO), parseQuery('after:2026-04-01'))
+    ).toBe(false);
+  });
+});
+
+describe('matchesTab', () => {
+  const tab = {
+    url: 'https://github.com/yehuizhang/chrome-tidy-tabs/pulls',
+    title: 'Pull requests',
+  } as chrome.tabs.Tab;
+
+  it('requires every free text term in the title or url', () => {
+    expect(matchesTab(tab, parseQuery('tidy pull'))).toBe(true);
+    expect(matchesTab(tab, parseQuery('tidy issues'))).toBe(false);
+  });
+
+  it('applies the query filters', () => {
+    expect(matchesTab(tab, parseQuery('site:github.com pull'))).toBe(true);
+    expect(matchesTab(tab, parseQuery('pull -tidy'))).toBe(false);
+  });
+});
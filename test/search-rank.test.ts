@@ -0,0 +1,134 @@
+import { SearchRank } from '../src/searching/search-rank';
+import { SelectionHistory } from '../src/searching/selection-history';
+import { DAY_IN_MS, SEARCH_MAX_CLICK_BOOST } from '../src/utils/constants';
+import { createEntry } from './test-helpers';
+
+const NOW = 1000 * DAY_IN_MS;
+const HALF_LIFE_DAYS = 14;
+
+// Bucket of the day the given number of days ago
+const daysAgo = (days: number) => String(Math.floor(NOW / DAY_IN_MS) - days);
+
+describe('SearchRank.calculateFrecency', () => {
+  it('counts recent visits fully and halves them every half-life', () => {
+    expect(
+      SearchRank.calculateFrecency(
+        { count: 2, lastVisited: NOW, visitBuckets: { [daysAgo(0)]: 2 } },
+        HALF_LIFE_DAYS,
+        NOW
+      )
+    ).toBeCloseTo(2, 1);
+    expect(
+      SearchRank.calculateFrecency(
+        { count: 4, lastVisited: NOW - 14 * DAY_IN_MS },
+        HALF_LIFE_DAYS,
+        NOW
+      )
+    ).toBeCloseTo(2);
+    expect(
+      SearchRank.calculateFrecency(
+        { count: 4, lastVisited: NOW - 28 * DAY_IN_MS },
+        HALF_LIFE_DAYS,
+        NOW
+      )
+    ).toBeCloseTo(1);
+  });
+
+  it('ignores the age without a half-life', () => {
+    expect(
+      SearchRank.calculateFrecency(
+        { count: 5, lastVisited: NOW - 365 * DAY_IN_MS },
+        0,
+        NOW
+      )
+    ).toBe(5);
+  });
+
+  it('counts unbucketed visits as old as the oldest bucket', () => {
+    const frecency = SearchRank.calculateFrecency(
+      {
+        count: 3,
+        lastVisited: NOW,
+        visitBuckets: { [daysAgo(0)]: 1, [daysAgo(28)]: 1 },
+      },
+      HALF_LIFE_DAYS,
+      NOW
+    );
+    // One visit today, one bucketed and one unbucketed visit 28 days ago
+    expect(frecency).toBeCloseTo(1.5, 1);
+  });
+});
+
+describe('SearchRank.rankSearchResults', () => {
+  // A perfect match against a weaker match picked before for the query
+  const rankUrls = (picks: number, maxClickBoost = SEARCH_MAX_CLICK_BOOST) =>
+    new SearchRank({ fuseWeight: 0.7, frecencyWeight: 0.6, maxClickBoost })
+      .rankSearchResults(
+        [
+          { item: createEntry({ url: 'https://match.com/' }), fuseScore: 0 },
+          { item: createEntry({ url: 'https://picked.com/' }), fuseScore: 0.6 },
+        ],
+        new Map([['https://picked.com/', picks]])
+      )
+      .map(entry => entry.url);
+
+  it('lets a single pick settle only close calls', () => {
+    expect(rankUrls(1)).toEqual(['https://match.com/', 'https://picked.com/']);
+    // A large maximum is capped to the score range
+    expect(rankUrls(1, 100)).toEqual([
+      'https://match.com/',
+      'https://picked.com/',
+    ]);
+  });
+
+  it('ranks a result picked often above a better match', () => {
+    expect(rankUrls(50, 100)).toEqual([
+      'https://picked.com/',
+      'https://match.com/',
+    ]);
+  });
+});
+
+describe('SelectionHistory', () => {
+  let selectionHistory: SelectionHistory;
+
+  beforeEach(async () => {
+    selectionHistory = await SelectionHistory.getInstance();
+    await selectionHistory.loadFromStorage();
+  });
+
+  it('records picks under every prefix of the query', async () => {
+    await selectionHistory.recordSelection(' Git  Hub ', 'https://github.com/');
+    await selectionHistory.recordSelection('gi', 'https://gitlab.com/');
+
+    expect(selectionHistory.getSelectionCounts('git hub')).toEqual(
+      new Map([['https://github.com/', 1]])
+    );
+    expect(selectionHistory.getSelectionCounts('GI')).toEqual(
+      new Map([
+        ['https://github.com/', 1],
+        ['https://gitlab.com/', 1],
+      ])
+    );
+    expect(selectionHistory.getSelectionCounts('g').size).toBe(0);
+  });
+
+  it('falls back to the longest recorded prefix', async () => {
+    await selectionHistory.recordSelection('doc', 'https://docs.com/');
+    await selectionHistory.recordSelection('doc', 'https://docs.com/');
+
+    expect(selectionHistory.getSelectionCounts('docs')).toEqual(
+      new Map([['https://docs.com/', 2]])
+    );
+  });
+
+  it('keeps the most recent picks of a query', async () => {
+    for (let i = 0; i < 6; i++) {
+      await selectionHistory.recordSelection('ab', `https://${i}.com/`);
+    }
+
+    const counts = selectionHistory.getSelectionCounts('ab');
+    expect(counts.size).toBe(5);
+    expect(counts.has('https://0.com/')).toBe(false);
+  });
+});
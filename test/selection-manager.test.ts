@@ -0,0 +1,71 @@
+import { SelectionManager } from '../src/searching/selection-manager';
+import { createEntry } from './test-helpers';
+
+describe('SelectionManager marks', () => {
+  const results = ['https://a.com/', 'https://b.com/', 'https://c.com/'].map(
+    url => createEntry({ url })
+  );
+
+  it('toggles marks and lists them in the order they were marked', () => {
+    const selectionManager = new SelectionManager();
+    selectionManager.toggleMark(2, results);
+    selectionManager.toggleMark(0, results);
+    selectionManager.toggleMark(1, results);
+    selectionManager.toggleMark(0, results);
+
+    expect(selectionManager.getMarkedUrls()).toEqual([
+      'https://c.com/',
+      'https://b.com/',
+    ]);
+  });
+
+  it('keeps marks of results no longer shown until cleared', () => {
+    const selectionManager = new SelectionManager();
+    selectionManager.toggleMark(0, results);
+    selectionManager.reset();
+    selectionManager.toggleMark(0, [createEntry({ url: 'https://d.com/' })]);
+    selectionManager.toggleMark(5, results);
+
+    expect(selectionManager.getMarkedUrls()).toEqual([
+      'https://a.com/',
+      'https://d.com/',
+    ]);
+    selectionManager.clearMarks();
+    expect(selectionManager.getMarkedUrls()).toEqual([]);
+  });
+});
+
+describe('SelectionManager keyboard selection', () => {
+  // Three rendered results, with just what updating the selection touches
+  const items = Array.from({ length: 3 }, () => ({
+    classList: { toggle: jest.fn() },
+    getAttribute: () => null,
+    scrollIntoView: jest.fn(),
+  }));
+  const container = {
+    querySelectorAll: () => items,
+  } as unknown as HTMLElement;
+
+  it('ignores results selected by hovering', () => {
+    const selectionManager = new SelectionManager();
+    selectionManager.setIndex(1);
+
+    expect(selectionManager.currentIndex).toBe(1);
+    expect(selectionManager.keyboardIndex).toBe(-1);
+  });
+
+  it('follows the keyboard once the selection is moved', () => {
+    const selectionManager = new SelectionManager();
+    selectionManager.setIndex(1);
+    selectionManager.moveWithContainer(1, container);
+    expect(selectionManager.keyboardIndex).toBe(2);
+
+    selectionManager.setIndex(0);
+    expect(selectionManager.keyboardIndex).toBe(-1);
+    selectionManager.moveToEdge('last', container);
+    expect(selectionManager.keyboardIndex).toBe(2);
+
+    selectionManager.reset();
+    expect(selectionManager.keyboardIndex).toBe(-1);
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  DEFAULT_SETTINGS,
+  ISettings,
+  migrateSettings,
+  SettingsManager,
+  SETTINGS_VERSION,
+  validateSetting,
+} from '../src/feature/settings';
+
+describe('validateSetting', () => {
+  it('accepts values matching the rule of the setting', () => {
+    expect(() => validateSetting('tabLimit', 0)).not.toThrow();
+    expect(() => validateSetting('staleTabAction', 'discard')).not.toThrow();
+    expect(() => validateSetting('tabSortAllWindows', true)).not.toThrow();
+  });
+
+  it('rejects wrong types, fractions, out of range values and unknown choices', () => {
+    expect(() => validateSetting('tabSortAllWindows', 'yes')).toThrow();
+    expect(() => validateSetting('tabLimit', 2.5)).toThrow();
+    expect(() => validateSetting('searchResultsShown', 0)).toThrow();
+    expect(() => validateSetting('searchFuseWeight', NaN)).toThrow();
+    expect(() => validateSetting('dedupeKeepPolicy', 'newest')).toThrow();
+  });
+});
+
+describe('migrateSettings', () => {
+  it('uses the defaults when nothing is stored', () => {
+    expect(migrateSettings(undefined)).toEqual({
+      settings: DEFAULT_SETTINGS,
+      migrated: false,
+    });
+  });
+
+  it('upgrades flat settings and drops unknown keys and invalid values', () => {
+    const { settings, migrated } = migrateSettings({
+      tabLimit: 80,
+      searchFuseWeight: -1,
+      removedSetting: true,
+    });
+
+    expect(migrated).toBe(true);
+    expect(settings.tabLimit).toBe(80);
+    expect(settings.searchFuseWeight).toBe(DEFAULT_SETTINGS.searchFuseWeight);
+    expect(settings).not.toHaveProperty('removedSetting');
+  });
+
+  it('reads current settings without rewriting them', () => {
+    expect(
+      migrateSettings({ version: SETTINGS_VERSION, settings: { tabLimit: 80 } })
+    ).toEqual({
+      settings: { ...DEFAULT_SETTINGS, tabLimit: 80 },
+      migrated: false,
+    });
+  });
+
+  it('never rewrites settings synced from a newer version', () => {
+    const { settings, migrated } = migrateSettings({
+      version: SETTINGS_VERSION + 1,
+      settings: { tabLimit: 80, newSetting: 1 },
+    });
+
+    expect(migrated).toBe(false);
+    expect(settings.tabLimit).toBe(80);
+  });
+});
+
+describe('SettingsManager.update', () => {
+  it('rejects unknown keys without saving anything', async () => {
+    const settingsManager = await SettingsManager.getInstance();
+    const changes = { tabLimit: 50, removedSetting: true };
+
+    await expect(
+      settingsManager.update(changes as Partial<ISettings>)
+    ).rejects.toThrow('Unknown setting removedSetting');
+    await expect(
+      settingsManager.update({ toString: 1 } as Partial<ISettings>)
+    ).rejects.toThrow('Unknown setting toString');
+    expect(settingsManager.get('tabLimit')).toBe(DEFAULT_SETTINGS.tabLimit);
+    expect(chrome.storage.sync.set).not.toHaveBeenCalled();
+  });
+});
@@ -78,11 +78,15 @@ const mockChromeStorage = {
       return Promise.resolve();
     }),
   },
+  onChanged: {
+    addListener: jest.fn(),
+  },
 };
 
 // Mock Chrome API
 const mockChrome = {
-  storage: mockChromeStorage,
+  // Session storage only differs from local storage in how long it is kept
+  storage: { ...mockChromeStorage, session: mockChromeStorage.local },
 };
 
 // Set up global Chrome object (override the chrome-types declaration for testing)
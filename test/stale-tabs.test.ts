@@ -0,0 +1,56 @@
+import { findStaleTabs } from '../src/feature/stale-tabs';
+import { HOUR_IN_MS } from '../src/utils/constants';
+import { createTab } from './test-helpers';
+
+const NOW = 1_700_000_000_000;
+
+// Tabs last accessed a day ago
+const createStaleTab = (overrides: Partial<chrome.tabs.Tab> = {}) =>
+  createTab({ lastAccessed: NOW - 24 * HOUR_IN_MS, ...overrides });
+
+const twelveHours = () => 12;
+
+describe('findStaleTabs', () => {
+  it('finds tabs not accessed within the threshold', () => {
+    const tabs = [
+      createStaleTab({ id: 1 }),
+      createStaleTab({ id: 2, lastAccessed: NOW - HOUR_IN_MS }),
+    ];
+    expect(
+      findStaleTabs(tabs, 'close', twelveHours, NOW).map(tab => tab.id)
+    ).toEqual([1]);
+  });
+
+  it('skips pinned, audible, active, incognito and non-web tabs', () => {
+    const tabs = [
+      createStaleTab({ id: 1, pinned: true }),
+      createStaleTab({ id: 2, audible: true }),
+      createStaleTab({ id: 3, active: true }),
+      createStaleTab({ id: 4, url: 'chrome://settings/' }),
+      createStaleTab({ id: 5, incognito: true }),
+    ];
+    expect(findStaleTabs(tabs, 'close', twelveHours, NOW)).toEqual([]);
+  });
+
+  it('skips discarded tabs only when discarding', () => {
+    const tabs = [createStaleTab({ id: 1, discarded: true })];
+    expect(findStaleTabs(tabs, 'discard', twelveHours, NOW)).toEqual([]);
+    expect(findStaleTabs(tabs, 'close', twelveHours, NOW)).toHaveLength(1);
+  });
+
+  it('uses the threshold of the domain and never touches allowlisted ones', () => {
+    const tabs = [
+      createStaleTab({ id: 1, url: 'https://mail.example.com/' }),
+      createStaleTab({ id: 2, url: 'https://docs.example.com/' }),
+    ];
+    const getThresholdHours = (hostname: string) =>
+      hostname === 'mail.example.com' ? null : 48;
+    expect(findStaleTabs(tabs, 'close', getThresholdHours, NOW)).toEqual([]);
+  });
+
+  it('finds nothing when the policy is off', () => {
+    expect(findStaleTabs([createStaleTab()], 'off', twelveHours, NOW)).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,59 @@
+import {
+  countTabs,
+  findTabsOverLimit,
+  isOverTabLimit,
+} from '../src/feature/tab-limit';
+import { createTab } from './test-helpers';
+
+describe('isOverTabLimit', () => {
+  const tabs = [
+    createTab({ id: 1, windowId: 1 }),
+    createTab({ id: 2, windowId: 1 }),
+    createTab({ id: 3, windowId: 2 }),
+  ];
+
+  it('checks the total and every window against their limits', () => {
+    const counts = countTabs(tabs);
+
+    expect(isOverTabLimit(counts, { tabLimit: 3, windowTabLimit: 0 })).toBe(
+      false
+    );
+    expect(isOverTabLimit(counts, { tabLimit: 2, windowTabLimit: 0 })).toBe(
+      true
+    );
+    expect(isOverTabLimit(counts, { tabLimit: 0, windowTabLimit: 1 })).toBe(
+      true
+    );
+  });
+});
+
+describe('findTabsOverLimit', () => {
+  it('picks the least recently used tabs that may be closed', () => {
+    const tabs = [
+      createTab({ id: 1, lastAccessed: 100 }),
+      createTab({ id: 2, lastAccessed: 10, pinned: true }),
+      createTab({ id: 3, lastAccessed: 30 }),
+      createTab({ id: 4, lastAccessed: 20 }),
+    ];
+
+    expect(
+      findTabsOverLimit(tabs, { tabLimit: 2, windowTabLimit: 0 }).map(
+        tab => tab.id
+      )
+    ).toEqual([4, 3]);
+  });
+
+  it('brings windows over their limit down first', () => {
+    const tabs = [
+      createTab({ id: 1, windowId: 1, lastAccessed: 10 }),
+      createTab({ id: 2, windowId: 2, lastAccessed: 20 }),
+      createTab({ id: 3, windowId: 2, lastAccessed: 30 }),
+    ];
+
+    expect(
+      findTabsOverLimit(tabs, { tabLimit: 0, windowTabLimit: 1 }).map(
+        tab => tab.id
+      )
+    ).toEqual([2]);
+  });
+});
@@ -0,0 +1,339 @@
+import {
+  excludeFromPlan,
+  getPlannedTabs,
+  isPlanEmpty,
+  planDedupe,
+  planGroup,
+  planMerge,
+  planMoveToNewWindow,
+  planSort,
+  planSplit,
+} from '../src/feature/tab-plan';
+import { queryDedupeTabs } from '../src/feature/tab-dedupe';
+import { executeTabPlan } from '../src/feature/tab-plan-executor';
+import { planSplitCurrentWindow } from '../src/feature/tab-split';
+import { createTabComparator } from '../src/feature/tab-sort';
+import { createTab, mockBrowser } from './test-helpers';
+
+const dedupeRules = {
+  stripTrackingParams: true,
+  ignoreFragment: true,
+  ignoreTrailingSlash: true,
+  useNormalizeUrl: false,
+};
+
+describe('planSort', () => {
+  it('orders tabs by registrable domain', () => {
+    const tabs = [
+      createTab({ id: 1, index: 0, url: 'https://news.bbc.co.uk/a' }),
+      createTab({ id: 2, index: 1, url: 'https://apple.com/' }),
+      createTab({ id: 3, index: 2, url: 'https://www.bbc.co.uk/b' }),
+    ];
+
+    const plan = planSort(tabs, createTabComparator('domain'), true);
+
+    expect(getPlannedTabs(plan).map(tab => tab.tabId)).toEqual([2, 1, 3]);
+  });
+
+  it('leaves out windows that are already in order', () => {
+    const tabs = [
+      createTab({ id: 1, index: 0, url: 'https://a.com/' }),
+      createTab({ id: 2, index: 1, url: 'https://b.com/' }),
+    ];
+
+    expect(
+      isPlanEmpty(planSort(tabs, createTabComparator('domain'), true))
+    ).toBe(true);
+  });
+
+  it('keeps pinned tabs in front and in place', () => {
+    const tabs = [
+      createTab({ id: 1, index: 0, url: 'https://z.com/', pinned: true }),
+      createTab({ id: 2, index: 1, url: 'https://a.com/', pinned: true }),
+      createTab({ id: 3, index: 2, url: 'https://c.com/' }),
+      createTab({ id: 4, index: 3, url: 'https://b.com/' }),
+    ];
+
+    const plan = planSort(tabs, createTabComparator('domain'), true);
+
+    expect(getPlannedTabs(plan).map(tab => tab.tabId)).toEqual([1, 2, 4, 3]);
+  });
+});
+
+describe('planDedupe', () => {
+  it('closes tabs that only differ in tracking params, fragment or slash', () => {
+    const tabs = [
+      createTab({ id: 1, index: 0, url: 'https://example.com/page' }),
+      createTab({
+        id: 2,
+        index: 1,
+        url: 'https://example.com/page/?utm_source=mail#top',
+      }),
+      createTab({ id: 3, index: 2, url: 'https://example.com/other' }),
+    ];
+
+    const plan = planDedupe(tabs, dedupeRules, 'first');
+
+    expect(getPlannedTabs(plan).map(tab => tab.tabId)).toEqual([2]);
+  });
+
+  it('keeps the duplicate picked by the policy', () => {
+    const tabs = [
+      createTab({ id: 1, index: 0 }),
+      createTab({ id: 2, index: 1, pinned: true }),
+    ];
+
+    const plan = planDedupe(tabs, dedupeRules, 'pinned');
+
+    expect(getPlannedTabs(plan).map(tab => tab.tabId)).toEqual([1]);
+  });
+});
+
+describe('queryDedupeTabs', () => {
+  it('only dedupes across normal windows of the current profile', async () => {
+    const browser = mockBrowser([
+      createTab({ id: 1 }),
+      createTab({ id: 2, windowId: 2, incognito: true }),
+    ]);
+
+    const tabs = await queryDedupeTabs(true);
+
+    expect(browser.tabs.query).toHaveBeenCalledWith({ windowType: 'normal' });
+    expect(tabs.map(tab => tab.id)).toEqual([1]);
+  });
+});
+
+describe('executeTabPlan', () => {
+  it('closes the other duplicates when one is already gone', async () => {
+    const { remove } = mockBrowser([]).tabs;
+    remove.mockImplementation((tabId: number) =>
+      tabId === 2
+        ? Promise.reject(new Error(`No tab with id: ${tabId}.`))
+        : Promise.resolve()
+    );
+    const plan = planDedupe(
+      [1, 2, 3].map(id => createTab({ id, index: id })),
+      dedupeRules,
+      'first'
+    );
+
+    await executeTabPlan(plan);
+
+    expect(remove.mock.calls).toEqual([[2], [3]]);
+  });
+});
+
+describe('planMerge', () => {
+  it('moves tabs of other windows into the target window', () => {
+    const tabs = [
+      createTab({ id: 1, windowId: 1 }),
+      createTab({ id: 2, windowId: 2 }),
+      createTab({ id: 3, windowId: 3 }),
+    ];
+
+    const plan = planMerge(tabs, 1);
+
+    expect(getPlannedTabs(plan).map(tab => tab.tabId)).toEqual([2, 3]);
+  });
+});
+
+describe('excludeFromPlan', () => {
+  it('drops excluded tabs without changing the original plan', () => {
+    const plan = planMerge(
+      [createTab({ id: 2, windowId: 2 }), createTab({ id: 3, windowId: 2 })],
+      1
+    );
+
+    const filtered = excludeFromPlan(plan, new Set([2]));
+
+    expect(getPlannedTabs(filtered).map(tab => tab.tabId)).toEqual([3]);
+    expect(getPlannedTabs(plan)).toHaveLength(2);
+  });
+
+  it('leaves tabs excluded from a sort at their index', () => {
+    const tabs = [
+      createTab({ id: 1, index: 0, url: 'https://d.com/' }),
+      createTab({ id: 2, index: 1, url: 'https://c.com/' }),
+      createTab({ id: 3, index: 2, url: 'https://a.com/' }),
+      createTab({ id: 4, index: 3, url: 'https://b.com/' }),
+    ];
+    const plan = planSort(tabs, createTabComparator('domain'), true);
+
+    const filtered = excludeFromPlan(plan, new Set([2]));
+
+    expect(getPlannedTabs(plan).map(tab => tab.tabId)).toEqual([3, 4, 2, 1]);
+    expect(getPlannedTabs(filtered).map(tab => tab.tabId)).toEqual([
+      3, 2, 4, 1,
+    ]);
+  });
+});
+
+describe('planGroup', () => {
+  const resolveByHost = (tab: chrome.tabs.Tab) => ({
+    title: new URL(tab.url || '').hostname,
+    color: 'blue' as const,
+    fromRule: false,
+  });
+
+  it('groups tabs of the same domain and skips single tabs', () => {
+    const tabs = [
+      createTab({ id: 1, url: 'https://a.com/1' }),
+      createTab({ id: 2, url: 'https://b.com/' }),
+      createTab({ id: 3, url: 'https://a.com/2' }),
+    ];
+
+    const plan = planGroup(tabs, resolveByHost, []);
+
+    expect(plan.kind === 'group' && plan.groups).toEqual([
+      expect.objectContaining({
+        title: 'a.com',
+        groupId: -1,
+        tabs: [
+          expect.objectContaining({ tabId: 1 }),
+          expect.objectContaining({ tabId: 3 }),
+        ],
+      }),
+    ]);
+  });
+
+  it('adds tabs to an existing group with the same title', () => {
+    const tabs = [
+      createTab({ id: 1, url: 'https://a.com/1', groupId: 7 }),
+      createTab({ id: 2, url: 'https://a.com/2' }),
+    ];
+
+    const plan = planGroup(tabs, resolveByHost, [
+      { id: 7, windowId: 1, title: 'a.com' },
+    ]);
+
+    expect(getPlannedTabs(plan).map(tab => tab.tabId)).toEqual([2]);
+    expect(plan.kind === 'group' && plan.groups[0]?.groupId).toBe(7);
+  });
+
+  it('leaves tabs of groups the user made to rules', () => {
+    const tabs = [
+      createTab({ id: 1, url: 'https://a.com/1', groupId: 7 }),
+      createTab({ id: 2, url: 'https://a.com/2' }),
+      createTab({ id: 3, url: 'https://a.com/3' }),
+      createTab({ id: 4, url: 'https://work.com/', groupId: 7 }),
+    ];
+    const resolveWithRule = (tab: chrome.tabs.Tab) =>
+      tab.url?.startsWith('https://work.com/')
+        ? { title: 'Work', color: 'red' as const, fromRule: true }
+        : resolveByHost(tab);
+
+    const plan = planGroup(tabs, resolveWithRule, [
+      { id: 7, windowId: 1, title: 'Reading' },
+    ]);
+
+    expect(plan.kind === 'group' && plan.groups).toEqual([
+      expect.objectContaining({
+        title: 'a.com',
+        tabs: [
+          expect.objectContaining({ tabId: 2 }),
+          expect.objectContaining({ tabId: 3 }),
+        ],
+      }),
+      expect.objectContaining({
+        title: 'Work',
+        tabs: [expect.objectContaining({ tabId: 4 })],
+      }),
+    ]);
+  });
+});
+
+describe('planSort with tab groups', () => {
+  it('keeps grouped tabs together', () => {
+    const tabs = [
+      createTab({ id: 1, index: 0, url: 'https://d.com/' }),
+      createTab({ id: 2, index: 1, url: 'https://c.com/', groupId: 5 }),
+      createTab({ id: 3, index: 2, url: 'https://a.com/' }),
+      createTab({ id: 4, index: 3, url: 'https://b.com/', groupId: 5 }),
+    ];
+
+    const plan = planSort(tabs, createTabComparator('domain'), true);
+
+    expect(getPlannedTabs(plan).map(tab => tab.tabId)).toEqual([3, 4, 2, 1]);
+  });
+});
+
+describe('planSplit', () => {
+  const byHost = (tab: chrome.tabs.Tab) => new URL(tab.url || '').hostname;
+
+  it('moves every domain but the one of the active tab to a new window', () => {
+    const tabs = [
+      createTab({ id: 1, url: 'https://a.com/1' }),
+      createTab({ id: 2, url: 'https://b.com/1', active: true }),
+      createTab({ id: 3, url: 'https://a.com/2' }),
+      createTab({ id: 4, url: 'https://c.com/', pinned: true }),
+    ];
+
+    const plan = planSplit(tabs, byHost);
+
+    expect(
+      plan.kind === 'split' &&
+        plan.windows.map(window => ({
+          title: window.title,
+          tabIds: window.tabs.map(tab => tab.tabId),
+        }))
+    ).toEqual([{ title: 'a.com', tabIds: [1, 3] }]);
+  });
+
+  it('leaves a window with a single domain alone', () => {
+    const tabs = [
+      createTab({ id: 1, url: 'https://a.com/1' }),
+      createTab({ id: 2, url: 'https://a.com/2' }),
+    ];
+
+    expect(isPlanEmpty(planSplit(tabs, byHost))).toBe(true);
+  });
+});
+
+describe('planSplitCurrentWindow', () => {
+  it('splits groups that share a title into separate windows', async () => {
+    mockBrowser(
+      [
+        createTab({ id: 1, active: true }),
+        createTab({ id: 2, groupId: 5 }),
+        createTab({ id: 3, groupId: 6 }),
+        createTab({ id: 4, groupId: 5 }),
+      ],
+      [{ id: 1, incognito: false }],
+      [
+        { id: 5, title: 'Docs' },
+        { id: 6, title: 'Docs' },
+      ]
+    );
+
+    const plan = await planSplitCurrentWindow('group');
+
+    expect(
+      plan.kind === 'split' &&
+        plan.windows.map(window => ({
+          title: window.title,
+          tabIds: window.tabs.map(tab => tab.tabId),
+        }))
+    ).toEqual([
+      { title: 'Docs', tabIds: [2, 4] },
+      { title: 'Docs', tabIds: [3] },
+    ]);
+  });
+});
+
+describe('planMoveToNewWindow', () => {
+  it('moves the matching tabs of all windows into one window', () => {
+    const tabs = [
+      createTab({ id: 1, windowId: 1, title: 'Jira board' }),
+      createTab({ id: 2, windowId: 2, title: 'Inbox' }),
+      createTab({ id: 3, windowId: 2, title: 'Jira ticket' }),
+    ];
+
+    const plan = planMoveToNewWindow(
+      tabs,
+      tab => (tab.title || '').includes('Jira'),
+      'jira'
+    );
+
+    expect(getPlannedTabs(plan).map(tab => tab.tabId)).toEqual([1, 3]);
+  });
+});
@@ -0,0 +1,149 @@
+import {
+  exportSessionAsUrlList,
+  exportSessionsAsJson,
+  parseSessionsImport,
+  TabSessions,
+} from '../src/feature/tab-sessions';
+import { ITabSession } from '../src/types';
+import { createTab, mockBrowser } from './test-helpers';
+
+const session: ITabSession = {
+  id: 'session-1',
+  name: 'Work',
+  createdAt: 1000,
+  windows: [
+    {
+      tabs: [
+        { url: 'https://a.com/', title: 'A', pinned: true },
+        { url: 'https://b.com/', title: 'B', pinned: false },
+      ],
+    },
+    { tabs: [{ url: 'https://c.com/', title: 'C', pinned: false }] },
+  ],
+};
+
+describe('exporting sessions', () => {
+  it('lists URLs with a blank line between windows', () => {
+    expect(exportSessionAsUrlList(session)).toBe(
+      'https://a.com/\nhttps://b.com/\n\nhttps://c.com/'
+    );
+  });
+
+  it('imports its own JSON export as new sessions', () => {
+    const { sessions, skippedCount } = parseSessionsImport(
+      exportSessionsAsJson([session])
+    );
+
+    expect(skippedCount).toBe(0);
+    expect(sessions).toEqual([
+      { ...session, id: expect.any(String) as string },
+    ]);
+    expect(sessions[0]?.id).not.toBe(session.id);
+  });
+});
+
+describe('parseSessionsImport', () => {
+  it('reads a URL list as one session, a window per block', () => {
+    const { sessions } = parseSessionsImport(
+      'https://a.com/\nnot a url\n\n  https://b.com/  '
+    );
+
+    expect(sessions).toHaveLength(1);
+    expect(
+      sessions[0]?.windows.map(window => window.tabs.map(tab => tab.url))
+    ).toEqual([['https://a.com/'], ['https://b.com/']]);
+  });
+
+  it('only imports http(s) URLs', () => {
+    const { sessions } = parseSessionsImport(
+      'javascript:alert(1)//\nfile:///etc/passwd\nhttp://a.com/\n\nchrome://settings/'
+    );
+
+    expect(
+      sessions[0]?.windows.map(window => window.tabs.map(tab => tab.url))
+    ).toEqual([['http://a.com/']]);
+  });
+
+  it('skips sessions without a window with a valid tab', () => {
+    const { sessions, skippedCount } = parseSessionsImport(
+      JSON.stringify([
+        null,
+        { name: 'No windows' },
+        { name: 'Bad windows', windows: [null, { tabs: null }] },
+        { name: 'Bad tabs', windows: [{ tabs: [null, { url: 42 }] }] },
+        { name: 'Good', windows: [{ tabs: [{ url: 'https://a.com/' }] }] },
+      ])
+    );
+
+    expect(skippedCount).toBe(4);
+    expect(sessions.map(s => s.name)).toEqual(['Good']);
+  });
+
+  it('replaces invalid names and titles', () => {
+    const { sessions } = parseSessionsImport(
+      JSON.stringify({
+        name: 7,
+        createdAt: 'yesterday',
+        windows: [{ tabs: [{ url: 'https://a.com/', title: {}, pinned: 1 }] }],
+      })
+    );
+
+    expect(sessions[0]).toMatchObject({
+      name: 'Imported session',
+      windows: [
+        {
+          tabs: [
+            { url: 'https://a.com/', title: 'https://a.com/', pinned: false },
+          ],
+        },
+      ],
+    });
+    expect(typeof sessions[0]?.createdAt).toBe('number');
+  });
+
+  it('rejects malformed JSON and a missing session list', () => {
+    expect(() => parseSessionsImport('{"sessions": ')).toThrow(
+      'The text is not valid JSON'
+    );
+    expect(() => parseSessionsImport('{"sessions": null}')).toThrow(
+      'Expected a session or a list of sessions'
+    );
+  });
+});
+
+describe('TabSessions.saveOpenWindows', () => {
+  const normalWindow = {
+    incognito: false,
+    tabs: [createTab({ url: 'https://a.com/', title: 'A' })],
+  };
+  const incognitoWindow = {
+    incognito: true,
+    tabs: [createTab({ url: 'https://private.com/', incognito: true })],
+  };
+
+  it('leaves incognito windows out when saving all windows', async () => {
+    mockBrowser([], [normalWindow, incognitoWindow]);
+    const tabSessions = await TabSessions.getInstance();
+
+    const saved = await tabSessions.saveOpenWindows('All', true);
+
+    expect(saved.windows).toEqual([
+      { tabs: [{ url: 'https://a.com/', title: 'A', pinned: false }] },
+    ]);
+  });
+
+  it('refuses to save an incognito window', async () => {
+    mockBrowser([], [incognitoWindow]);
+    const tabSessions = await TabSessions.getInstance();
+
+    await expect(tabSessions.saveOpenWindows('Private', false)).rejects.toThrow(
+      'Incognito windows cannot be saved as a session'
+    );
+    await expect(tabSessions.saveOpenWindows('All', true)).rejects.toThrow(
+      'There are no tabs to save'
+    );
+    expect(JSON.stringify(await chrome.storage.local.get())).not.toContain(
+      'private'
+    );
+  });
+});
@@ -0,0 +1,82 @@
+import { createTabComparator, getUrlInfo } from '../src/feature/tab-sort';
+import { createTab } from './test-helpers';
+
+const sortIds = (
+  tabs: chrome.tabs.Tab[],
+  compare: ReturnType<typeof createTabComparator>
+) => [...tabs].sort(compare).map(tab => tab.id);
+
+describe('createTabComparator', () => {
+  it('orders by domain, then subdomain, path and query', () => {
+    const tabs = [
+      createTab({ id: 1, url: 'https://www.b.com/' }),
+      createTab({ id: 2, url: 'https://a.com/page?x=2' }),
+      createTab({ id: 3, url: 'https://a.com/page?x=1' }),
+      createTab({ id: 4, url: 'https://docs.a.com/' }),
+      createTab({ id: 5, url: 'https://a.com/' }),
+    ];
+
+    expect(sortIds(tabs, createTabComparator('domain'))).toEqual([
+      5, 3, 2, 4, 1,
+    ]);
+  });
+
+  it('orders by title regardless of case', () => {
+    const tabs = [
+      createTab({ id: 1, url: 'https://a.com/', title: 'beta' }),
+      createTab({ id: 2, url: 'https://b.com/', title: 'Alpha' }),
+      createTab({ id: 3, url: 'https://c.com/', title: 'alpha' }),
+    ];
+
+    expect(sortIds(tabs, createTabComparator('title'))).toEqual([2, 3, 1]);
+  });
+
+  it('puts the most recently used tabs first', () => {
+    const tabs = [
+      createTab({ id: 1, url: 'https://a.com/', lastAccessed: 100 }),
+      createTab({ id: 2, url: 'https://b.com/', lastAccessed: 300 }),
+      createTab({ id: 3, url: 'https://c.com/', lastAccessed: 200 }),
+    ];
+
+    expect(sortIds(tabs, createTabComparator('lastAccessed'))).toEqual([
+      2, 3, 1,
+    ]);
+  });
+
+  it('puts the most visited tabs first and ties in URL order', () => {
+    const visitCounts: { [url: string]: number } = {
+      'https://a.com/': 1,
+      'https://b.com/': 5,
+    };
+    const tabs = [
+      createTab({ id: 1, url: 'https://c.com/' }),
+      createTab({ id: 2, url: 'https://a.com/' }),
+      createTab({ id: 3, url: 'https://b.com/' }),
+      createTab({ id: 4, url: 'https://0.com/' }),
+    ];
+
+    expect(
+      sortIds(
+        tabs,
+        createTabComparator('visitCount', url => visitCounts[url] ?? 0)
+      )
+    ).toEqual([3, 2, 4, 1]);
+  });
+});
+
+describe('getUrlInfo', () => {
+  it('uses the host of addresses without a registrable domain', () => {
+    expect(getUrlInfo('http://localhost:3000/app')).toEqual({
+      domain: 'localhost',
+      subdomain: '',
+      pathName: '/app',
+      search: '',
+    });
+    expect(getUrlInfo('http://192.168.0.1/').domain).toBe('192.168.0.1');
+  });
+
+  it('keeps URLs it cannot parse as the domain', () => {
+    expect(getUrlInfo('not a url').domain).toBe('not a url');
+    expect(getUrlInfo('').domain).toBe('');
+  });
+});
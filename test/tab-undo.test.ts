@@ -0,0 +1,167 @@
+import { TabUndo } from '../src/feature/tab-undo';
+import { TAB_UNDO_MAX_AGE_MS } from '../src/utils/constants';
+import { createTab, mockBrowser } from './test-helpers';
+
+describe('TabUndo', () => {
+  it('saves the layout under the name of the operation', async () => {
+    mockBrowser(
+      [createTab({ id: 1, url: 'https://a.com/', pinned: true, groupId: 5 })],
+      [{ id: 1, incognito: false }],
+      [{ id: 5, windowId: 1, title: 'Work', color: 'blue', collapsed: false }]
+    );
+    const tabUndo = new TabUndo();
+
+    expect(await tabUndo.getUndoableOperation()).toBeNull();
+    await tabUndo.saveSnapshot('Sort');
+
+    expect(await tabUndo.getUndoableOperation()).toBe('Sort');
+  });
+
+  it('moves tabs back and restores their pin state once', async () => {
+    const tabUndo = new TabUndo();
+    mockBrowser(
+      [
+        createTab({ id: 1, index: 0, url: 'https://a.com/', pinned: true }),
+        createTab({ id: 2, index: 1, url: 'https://b.com/' }),
+      ],
+      [{ id: 1, incognito: false }]
+    );
+    await tabUndo.saveSnapshot('Sort');
+
+    const browser = mockBrowser(
+      [
+        createTab({ id: 2, index: 0, url: 'https://b.com/' }),
+        createTab({ id: 1, index: 1, url: 'https://a.com/' }),
+      ],
+      [{ id: 1, incognito: false }]
+    );
+
+    expect(await tabUndo.undo()).toBe('Sort');
+    expect(browser.tabs.update).toHaveBeenCalledWith(1, { pinned: true });
+    expect(browser.tabs.move.mock.calls).toEqual([
+      [1, { windowId: 1, index: 0 }],
+      [2, { windowId: 1, index: 1 }],
+    ]);
+    expect(await tabUndo.undo()).toBeNull();
+  });
+
+  it('reopens closed tabs and windows', async () => {
+    const tabUndo = new TabUndo();
+    mockBrowser(
+      [
+        createTab({ id: 1, index: 0, url: 'https://a.com/' }),
+        createTab({ id: 2, index: 1, url: 'https://a.com/' }),
+        createTab({ id: 3, windowId: 2, url: 'https://b.com/' }),
+      ],
+      [
+        { id: 1, incognito: false },
+        { id: 2, incognito: false },
+      ]
+    );
+    await tabUndo.saveSnapshot('Remove duplicates');
+
+    const browser = mockBrowser(
+      [createTab({ id: 1, index: 0, url: 'https://a.com/' })],
+      [{ id: 1, incognito: false }]
+    );
+    await tabUndo.undo();
+
+    expect(browser.tabs.create).toHaveBeenCalledWith({
+      windowId: 1,
+      index: 1,
+      url: 'https://a.com/',
+      pinned: false,
+      active: false,
+    });
+    expect(browser.windows.create).toHaveBeenCalledWith({
+      url: 'https://b.com/',
+    });
+  });
+
+  it('leaves incognito windows out of the snapshot', async () => {
+    const tabUndo = new TabUndo();
+    mockBrowser(
+      [
+        createTab({ id: 1, url: 'https://a.com/' }),
+        createTab({
+          id: 2,
+          windowId: 2,
+          url: 'https://private.com/',
+          incognito: true,
+          groupId: 5,
+        }),
+      ],
+      [
+        { id: 1, incognito: false },
+        { id: 2, incognito: true },
+      ],
+      [{ id: 5, windowId: 2, title: 'Private', color: 'red', collapsed: false }]
+    );
+    await tabUndo.saveSnapshot('Merge windows');
+
+    expect(JSON.stringify(await chrome.storage.session.get())).not.toContain(
+      'private'
+    );
+
+    const browser = mockBrowser(
+      [createTab({ id: 1, url: 'https://a.com/' })],
+      [{ id: 1, incognito: false }]
+    );
+    await tabUndo.undo();
+
+    expect(browser.windows.create).not.toHaveBeenCalled();
+    expect(browser.tabs.group).not.toHaveBeenCalled();
+  });
+
+  it('expires the snapshot after an hour', async () => {
+    const tabUndo = new TabUndo();
+    const now = Date.now();
+    const dateNow = jest.spyOn(Date, 'now').mockReturnValue(now);
+    mockBrowser(
+      [createTab({ id: 1, url: 'https://a.com/' })],
+      [{ id: 1, incognito: false }]
+    );
+    await tabUndo.saveSnapshot('Sort');
+
+    dateNow.mockReturnValue(now + TAB_UNDO_MAX_AGE_MS + 1);
+    const browser = mockBrowser([], [{ id: 1, incognito: false }]);
+
+    expect(await tabUndo.getUndoableOperation()).toBeNull();
+    expect(await tabUndo.undo()).toBeNull();
+    expect(browser.tabs.create).not.toHaveBeenCalled();
+    dateNow.mockRestore();
+  });
+
+  it('regroups tabs with the title and color of their group', async () => {
+    const tabUndo = new TabUndo();
+    const group = {
+      id: 5,
+      windowId: 1,
+      title: 'Work',
+      color: 'blue' as const,
+      collapsed: false,
+    };
+    mockBrowser(
+      [createTab({ id: 1, url: 'https://a.com/', groupId: 5 })],
+      [{ id: 1, incognito: false }],
+      [group]
+    );
+    await tabUndo.saveSnapshot('Group');
+
+    const browser = mockBrowser(
+      [createTab({ id: 1, url: 'https://a.com/' })],
+      [{ id: 1, incognito: false }]
+    );
+    await tabUndo.undo();
+
+    expect(browser.tabs.group).toHaveBeenCalledWith({
+      tabIds: [1],
+      createProperties: { windowId: 1 },
+    });
+    expect(browser.tabGroups.update).toHaveBeenCalledWith(7, {
+      title: 'Work',
+      color: 'blue',
+      collapsed: false,
+    });
+  });
+});
@@ -1,4 +1,6 @@
-import { IBookmarkTreeNode } from '../src/types';
+import { VisitStorageManager } from '../src/searching/visit-storage-manager';
+import { IBookmarkTreeNode, IVisitData, SearchEntry } from '../src/types';
+import { StorageKeys } from '../src/utils/constants';
 
 /**
  * Helper function to create mock bookmark nodes with all required properties
@@ -29,4 +31,118 @@ export function createMockBookmarks(count: number, urlPrefix = 'https://example'
   return Array.from({ length: count }, (_, i) => 
     createMockBookmark(`${i}`, `Bookmark ${i}`, `${urlPrefix}${i}.com`)
   );
-}
\ No newline at end of file
+}
+
+/**
+ * Helper to create a tab of a normal window, ungrouped and never accessed
+ */
+export function createTab(overrides: Partial<chrome.tabs.Tab> = {}): chrome.tabs.Tab {
+  return {
+    id: 1,
+    windowId: 1,
+    index: 0,
+    url: 'https://example.com/',
+    title: 'Example',
+    pinned: false,
+    active: false,
+    audible: false,
+    discarded: false,
+    groupId: -1,
+    incognito: false,
+    lastAccessed: 0,
+    ...overrides,
+  } as chrome.tabs.Tab;
+}
+
+/**
+ * Helper to create a search result of a visited page
+ */
+export function createEntry(overrides: Partial<SearchEntry> = {}): SearchEntry {
+  return {
+    url: 'https://example.com/',
+    title: 'Example',
+    visitCount: 1,
+    lastVisited: 0,
+    frecency: 1,
+    isBookmark: false,
+    isOpenTab: false,
+    ...overrides,
+  };
+}
+
+/**
+ * Helper to store visit data and load it into the visit storage manager
+ */
+export async function loadVisitData(
+  visitData: IVisitData
+): Promise<VisitStorageManager> {
+  await chrome.storage.local.set({ [StorageKeys.VISIT_DATA]: visitData });
+  const visitStorageManager = await VisitStorageManager.getInstance();
+  await visitStorageManager.loadVisitDataIfAvailable();
+  return visitStorageManager;
+}
+
+/**
+ * Helper to mock the history API with the given items and the visit times of
+ * their URLs, next to an empty bookmark tree. Returns the history mocks.
+ */
+export function mockHistory(
+  historyItems: Partial<chrome.history.HistoryItem>[],
+  visitTimes: { [url: string]: number[] } = {}
+) {
+  const history = {
+    search: jest.fn().mockResolvedValue(historyItems),
+    getVisits: jest
+      .fn()
+      .mockImplementation(({ url }: { url: string }) =>
+        Promise.resolve(
+          (visitTimes[url] ?? []).map(visitTime => ({ visitTime }))
+        )
+      ),
+  };
+  Object.assign(chrome, {
+    history,
+    bookmarks: { getTree: jest.fn().mockResolvedValue([]) },
+  });
+  return history;
+}
+
+/**
+ * Helper to mock the tab, window and tab group APIs with the given open tabs,
+ * windows and groups. The first window is the current one. Returns the mocks.
+ */
+export function mockBrowser(
+  tabs: chrome.tabs.Tab[],
+  windows: Partial<chrome.windows.Window>[] = [{ id: 1, incognito: false }],
+  groups: Partial<chrome.tabGroups.TabGroup>[] = []
+) {
+  const browser = {
+    windows: {
+      WINDOW_ID_CURRENT: -2,
+      getAll: jest.fn().mockResolvedValue(windows),
+      getCurrent: jest.fn().mockResolvedValue(windows[0]),
+      create: jest
+        .fn()
+        .mockImplementation(({ url }: { url?: string }) =>
+          Promise.resolve({ id: 10, tabs: url ? [{ id: 100 }] : [] })
+        ),
+    },
+    tabs: {
+      query: jest.fn().mockResolvedValue(tabs),
+      move: jest.fn().mockResolvedValue({}),
+      update: jest.fn().mockResolvedValue({}),
+      create: jest.fn().mockResolvedValue({ id: 200 }),
+      remove: jest.fn().mockResolvedValue(undefined),
+      group: jest.fn().mockResolvedValue(7),
+      ungroup: jest.fn().mockResolvedValue(undefined),
+    },
+    tabGroups: {
+      TAB_GROUP_ID_NONE: -1,
+      query: jest.fn().mockResolvedValue(groups),
+      get: jest.fn().mockRejectedValue(new Error('No group')),
+      update: jest.fn().mockResolvedValue({}),
+    },
+  };
+  Object.assign(chrome, browser);
+  return browser;
+}
@@ -0,0 +1,139 @@
+import {
+  ALL_EXCLUSION_SCOPES,
+  EXCLUSION_RULES_VERSION,
+  UrlExclusion,
+} from '../src/feature/url-exclusion';
+import { StorageController } from '../src/storage-controller';
+import { StorageKeys } from '../src/utils/constants';
+import { IVisitData } from '../src/types';
+import { mockHistory } from './test-helpers';
+
+const loadRules = async (stored: unknown) => {
+  await chrome.storage.local.set({ [StorageKeys.EXCLUDED_URLS]: stored });
+  const urlExclusion = new UrlExclusion();
+  await urlExclusion.loadFromStorage();
+  return urlExclusion;
+};
+
+describe('UrlExclusion', () => {
+  it('migrates version 1 prefixes to rules of every scope', async () => {
+    const urlExclusion = await loadRules(['mail.google.com/', 42]);
+
+    expect(urlExclusion.getRules()).toEqual([
+      {
+        id: expect.any(String) as string,
+        type: 'prefix',
+        pattern: 'mail.google.com/',
+        scopes: ALL_EXCLUSION_SCOPES,
+      },
+    ]);
+    const result = await chrome.storage.local.get(StorageKeys.EXCLUDED_URLS);
+    expect(result[StorageKeys.EXCLUDED_URLS]).toMatchObject({
+      version: EXCLUSION_RULES_VERSION,
+      rules: [{ pattern: 'mail.google.com/' }],
+    });
+  });
+
+  it('ignores rules of an unknown version and drops invalid stored rules', async () => {
+    expect((await loadRules({ version: 99, rules: [] })).getRules()).toEqual(
+      []
+    );
+
+    const urlExclusion = await loadRules({
+      version: EXCLUSION_RULES_VERSION,
+      rules: [
+        { id: '1', type: 'regex', pattern: '(', scopes: ['record'] },
+        { id: '2', type: 'regex', pattern: '(a+)+$', scopes: ['record'] },
+        { id: '3', type: 'host', pattern: 'a.com', scopes: ['record'] },
+      ],
+    });
+    expect(urlExclusion.getRules().map(rule => rule.id)).toEqual(['3']);
+  });
+
+  it('matches prefix, glob, regex and host rules', async () => {
+    const urlExclusion = await loadRules(undefined);
+    await urlExclusion.addRule('prefix', 'https://example.com/private');
+    await urlExclusion.addRule('glob', '*.internal.test/*');
+    await urlExclusion.addRule('regex', '[?&]token=');
+    await urlExclusion.addRule('host', 'https://bank.test/login');
+
+    const excluded = (url: string) => urlExclusion.isUrlExcluded(url, 'search');
+    expect(excluded('https://example.com/private/page')).toBe(true);
+    expect(excluded('example.com/public')).toBe(false);
+    expect(excluded('https://wiki.internal.test/home')).toBe(true);
+    expect(excluded('https://internal.test/home')).toBe(false);
+    expect(excluded('https://a.com/?TOKEN=1')).toBe(true);
+    expect(excluded('https://bank.test/accounts')).toBe(true);
+    expect(excluded('https://www.bank.test/')).toBe(false);
+  });
+
+  it('only applies rules to their scopes', async () => {
+    const urlExclusion = await loadRules(undefined);
+    await urlExclusion.addRule('host', 'a.com', ['search']);
+
+    expect(urlExclusion.isUrlExcluded('https://a.com/', 'search')).toBe(true);
+    expect(urlExclusion.isUrlExcluded('https://a.com/', 'record')).toBe(false);
+  });
+
+  it('rejects invalid, long and backtracking regexes when saving', async () => {
+    const urlExclusion = await loadRules(undefined);
+
+    await expect(urlExclusion.addRule('regex', '[a-')).rejects.toThrow(
+      'Invalid regex'
+    );
+    await expect(urlExclusion.addRule('regex', '(a*)*b')).rejects.toThrow();
+    await expect(
+      urlExclusion.addRule('regex', 'a'.repeat(501))
+    ).rejects.toThrow();
+    expect(urlExclusion.getRules()).toEqual([]);
+  });
+});
+
+describe('UrlExclusion.isUrlExcluded', () => {
+  it('requires the rules to be loaded first', () => {
+    expect(() => new UrlExclusion().isUrlExcluded('a.com', 'search')).toThrow();
+  });
+
+  it('matches raw URLs and normalized keys without a protocol', async () => {
+    const urlExclusion = await loadRules(undefined);
+    expect(urlExclusion.isUrlExcluded('https://a.com/', 'search')).toBe(false);
+
+    await urlExclusion.addRule('prefix', 'a.com/private');
+    expect(
+      urlExclusion.isUrlExcluded('https://a.com/private/page', 'search')
+    ).toBe(true);
+    expect(urlExclusion.isUrlExcluded('a.com/private', 'search')).toBe(true);
+    expect(urlExclusion.isUrlExcluded('https://a.com/public', 'search')).toBe(
+      false
+    );
+    expect(urlExclusion.isUrlExcluded('b.com/a.com/private', 'search')).toBe(
+      false
+    );
+  });
+
+  it('does not exclude URLs it cannot parse', async () => {
+    const urlExclusion = await loadRules(['a.com/']);
+
+    expect(urlExclusion.isUrlExcluded('http://', 'search')).toBe(false);
+    expect(urlExclusion.isUrlExcluded('https://a.com/', 'search')).toBe(true);
+  });
+});
+
+describe('importing excluded history', () => {
+  it('skips history excluded from import', async () => {
+    mockHistory([
+      { url: 'https://skip.com/', visitCount: 1, lastVisitTime: 100 },
+      { url: 'https://keep.com/', visitCount: 1, lastVisitTime: 100 },
+    ]);
+    const urlExclusion = await UrlExclusion.getInstance();
+    await urlExclusion.loadFromStorage();
+    const rule = await urlExclusion.addRule('host', 'skip.com', ['import']);
+
+    await new StorageController().sync();
+    await urlExclusion.removeRule(rule.id);
+
+    const result = await chrome.storage.local.get(StorageKeys.VISIT_DATA);
+    const visitData = result[StorageKeys.VISIT_DATA] as IVisitData;
+    expect(Object.keys(visitData)).toEqual(['https://keep.com/']);
+  });
+});
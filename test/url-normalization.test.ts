@@ -0,0 +1,224 @@
+import { UrlNormalization } from '../src/feature/url-normalization';
+import { normalizeUrl } from '../src/searching/utils';
+import { VisitStorageManager } from '../src/searching/visit-storage-manager';
+import { StorageController } from '../src/storage-controller';
+import { loadVisitData, mockHistory } from './test-helpers';
+
+describe('normalizeUrl', () => {
+  it('drops the query string and hash by default', () => {
+    expect(normalizeUrl(new URL('https://example.com/a?b=1#c'))).toBe(
+      'https://example.com/a'
+    );
+  });
+
+  it('keeps the selected parameters sorted by name', () => {
+    const url = new URL('https://example.com/a?z=1&utm_source=x&b=2');
+    expect(normalizeUrl(url, name => name !== 'utm_source')).toBe(
+      'https://example.com/a?b=2&z=1'
+    );
+  });
+});
+
+describe('UrlNormalization', () => {
+  let urlNormalization: UrlNormalization;
+
+  beforeAll(async () => {
+    urlNormalization = await UrlNormalization.getInstance();
+  });
+
+  it('keeps the default parameters of a host and its subdomains', () => {
+    expect(
+      urlNormalization.normalize(
+        new URL('https://www.youtube.com/watch?v=abc&t=42')
+      )
+    ).toBe('https://www.youtube.com/watch?v=abc');
+    expect(
+      urlNormalization.normalize(new URL('https://example.com/watch?v=abc'))
+    ).toBe('https://example.com/watch');
+  });
+
+  it('prefers the most specific host and replaces rules of the same host', async () => {
+    await urlNormalization.setRule('https://app.example.com/', 'view');
+    await urlNormalization.setRule('example.com', ['id']);
+    await urlNormalization.setRule('example.com', 'id, page');
+
+    expect(urlNormalization.getRuleForHost('docs.example.com')?.params).toEqual(
+      ['id', 'page']
+    );
+    expect(urlNormalization.getRuleForHost('app.example.com')?.params).toEqual([
+      'view',
+    ]);
+    expect(
+      urlNormalization.getRules().filter(rule => rule.host === 'example.com')
+    ).toHaveLength(1);
+  });
+
+  it('never keeps tracking parameters, even with a wildcard rule', async () => {
+    await urlNormalization.setRule('shop.test', '*');
+    await urlNormalization.setTrackingParams('utm_*, ref');
+
+    expect(
+      urlNormalization.normalize(
+        new URL('https://shop.test/item?utm_medium=x&ref=y&sku=1')
+      )
+    ).toBe('https://shop.test/item?sku=1');
+  });
+
+  it('rejects rules without a host or parameters', async () => {
+    await expect(urlNormalization.setRule(' ', 'id')).rejects.toThrow();
+    await expect(
+      urlNormalization.setRule('example.com', ', ')
+    ).rejects.toThrow();
+  });
+});
+
+describe('re-keying visit data', () => {
+  const WATCH = 'https://www.youtube.com/watch';
+  let visitStorageManager: VisitStorageManager;
+
+  it('merges entries whose parameters are no longer significant', async () => {
+    visitStorageManager = await loadVisitData({
+      'https://other.test/a?x=1': {
+        count: 2,
+        lastVisited: 100,
+        title: 'Old',
+        isBookmark: true,
+        visitBuckets: { '1': 2 },
+      },
+      'https://other.test/a': {
+        count: 3,
+        lastVisited: 200,
+        title: 'New',
+        isBookmark: false,
+      },
+    });
+
+    expect(visitStorageManager.rekeyVisitData()).toBe(1);
+    expect(visitStorageManager.getAllVisitData()).toEqual({
+      'https://other.test/a': {
+        count: 5,
+        lastVisited: 200,
+        title: 'New',
+        isBookmark: true,
+        visitBuckets: { '1': 2 },
+      },
+    });
+  });
+
+  it('keeps titles edited by the user when merging', async () => {
+    visitStorageManager = await loadVisitData({
+      'https://other.test/b?x=1': {
+        count: 1,
+        lastVisited: 100,
+        customTitle: 'Mine',
+        titleEdited: true,
+        isBookmark: false,
+      },
+      'https://other.test/b': {
+        count: 1,
+        lastVisited: 200,
+        customTitle: 'Bookmark',
+        isBookmark: true,
+      },
+    });
+
+    visitStorageManager.rekeyVisitData();
+    expect(visitStorageManager.getEntry('https://other.test/b')).toMatchObject({
+      customTitle: 'Mine',
+      titleEdited: true,
+    });
+  });
+
+  it('moves only the visits the history knows of to the split keys', async () => {
+    visitStorageManager = await loadVisitData({
+      [WATCH]: { count: 10, lastVisited: 300, isBookmark: false },
+      [`${WATCH}?v=a`]: {
+        count: 1,
+        lastVisited: 400,
+        isBookmark: false,
+        visitBuckets: { '4': 1 },
+      },
+    });
+
+    expect(
+      visitStorageManager.splitVisitData(WATCH, {
+        [WATCH]: { count: 1, lastVisited: 100, isBookmark: false },
+        [`${WATCH}?v=a`]: {
+          count: 4,
+          lastVisited: 400,
+          title: 'A',
+          isBookmark: false,
+        },
+        [`${WATCH}?v=b`]: {
+          count: 3,
+          lastVisited: 300,
+          title: 'B',
+          isBookmark: false,
+        },
+      })
+    ).toBe(6);
+    expect(visitStorageManager.getAllVisitData()).toEqual({
+      // Visits older than the history window stay with the old entry
+      [WATCH]: { count: 4, lastVisited: 300, isBookmark: false },
+      [`${WATCH}?v=a`]: {
+        count: 4,
+        lastVisited: 400,
+        title: 'A',
+        isBookmark: false,
+        visitBuckets: { '4': 1 },
+      },
+      [`${WATCH}?v=b`]: {
+        count: 3,
+        lastVisited: 300,
+        title: 'B',
+        isBookmark: false,
+      },
+    });
+  });
+
+  it('removes split entries left without visits unless bookmarked', async () => {
+    visitStorageManager = await loadVisitData({
+      [WATCH]: { count: 2, lastVisited: 300, isBookmark: false },
+      'https://news.ycombinator.com/item': {
+        count: 1,
+        lastVisited: 300,
+        customTitle: 'HN',
+        isBookmark: true,
+      },
+    });
+
+    visitStorageManager.splitVisitData(WATCH, {
+      [`${WATCH}?v=a`]: { count: 5, lastVisited: 300, isBookmark: false },
+    });
+    visitStorageManager.splitVisitData('https://news.ycombinator.com/item', {
+      'https://news.ycombinator.com/item?id=1': {
+        count: 1,
+        lastVisited: 300,
+        isBookmark: false,
+      },
+    });
+
+    expect(visitStorageManager.getEntry(WATCH)).toBeUndefined();
+    expect(visitStorageManager.getEntry(`${WATCH}?v=a`)?.count).toBe(2);
+    expect(
+      visitStorageManager.getEntry('https://news.ycombinator.com/item')
+    ).toMatchObject({ count: 0, customTitle: 'HN', isBookmark: true });
+  });
+
+  it('migrates the keys of earlier versions once', async () => {
+    const history = mockHistory([
+      { id: '1', url: `${WATCH}?v=a&t=1`, visitCount: 2, lastVisitTime: 200 },
+    ]);
+    visitStorageManager = await loadVisitData({
+      [WATCH]: { count: 3, lastVisited: 200, isBookmark: false },
+    });
+
+    const storageController = new StorageController();
+    await storageController.migrateVisitDataKeys();
+    await storageController.migrateVisitDataKeys();
+
+    expect(history.search).toHaveBeenCalledTimes(1);
+    expect(visitStorageManager.getEntry(WATCH)?.count).toBe(1);
+    expect(visitStorageManager.getEntry(`${WATCH}?v=a`)?.count).toBe(2);
+  });
+});
@@ -0,0 +1,89 @@
+import { VisitStorageManager } from '../src/searching/visit-storage-manager';
+import { StorageKeys } from '../src/utils/constants';
+import { IVisitData } from '../src/types';
+
+const URL = 'https://example.com/page';
+
+describe('VisitStorageManager.applyEntryEdit', () => {
+  let visitStorageManager: VisitStorageManager;
+
+  beforeEach(async () => {
+    const visitData: IVisitData = {
+      [URL]: {
+        count: 3,
+        lastVisited: 1000,
+        title: 'Page',
+        customTitle: 'Bookmark',
+        isBookmark: true,
+        visitBuckets: { '1': 3 },
+      },
+    };
+    await chrome.storage.local.set({ [StorageKeys.VISIT_DATA]: visitData });
+    visitStorageManager = await VisitStorageManager.getInstance();
+    await visitStorageManager.loadVisitDataIfAvailable();
+  });
+
+  it('renames entries and keeps the title on bookmark syncs', () => {
+    expect(
+      visitStorageManager.applyEntryEdit({
+        kind: 'rename',
+        url: URL,
+        title: ' Mine ',
+      })
+    ).toBe(true);
+
+    visitStorageManager.applyBookmarks(
+      new Map([
+        [URL, { title: 'Renamed bookmark', lastVisited: 0, folderPath: [] }],
+      ])
+    );
+    expect(visitStorageManager.getEntry(URL)?.customTitle).toBe('Mine');
+  });
+
+  it('restores the bookmark title after renaming to an empty title', () => {
+    visitStorageManager.applyEntryEdit({ kind: 'rename', url: URL, title: '' });
+    visitStorageManager.applyBookmarks(
+      new Map([[URL, { title: 'Bookmark', lastVisited: 0, folderPath: [] }]])
+    );
+    expect(visitStorageManager.getEntry(URL)?.customTitle).toBe('Bookmark');
+  });
+
+  it('resets the visit count and drops the visit buckets', () => {
+    visitStorageManager.applyEntryEdit({ kind: 'resetCount', url: URL });
+    expect(visitStorageManager.getEntry(URL)).toMatchObject({
+      count: 0,
+      lastVisited: 1000,
+    });
+    expect(visitStorageManager.getEntry(URL)?.visitBuckets).toBeUndefined();
+  });
+
+  it('deletes entries and ignores unknown URLs', () => {
+    expect(
+      visitStorageManager.applyEntryEdit({ kind: 'delete', url: URL })
+    ).toBe(true);
+    expect(visitStorageManager.getEntry(URL)).toBeUndefined();
+    expect(
+      visitStorageManager.applyEntryEdit({ kind: 'delete', url: URL })
+    ).toBe(false);
+  });
+
+  it('keeps deleted bookmark entries from coming back on bookmark syncs', async () => {
+    const bookmarks = new Map([
+      [URL, { title: 'Bookmark', lastVisited: 0, folderPath: [] }],
+    ]);
+    visitStorageManager.applyEntryEdit({ kind: 'delete', url: URL });
+    await visitStorageManager.saveVisitData();
+    await visitStorageManager.loadVisitDataIfAvailable();
+
+    expect(visitStorageManager.applyBookmarks(bookmarks)).toBe(0);
+    expect(visitStorageManager.getEntry(URL)).toBeUndefined();
+
+    // Bookmarking the page again brings the entry back
+    visitStorageManager.applyBookmarks(new Map());
+    visitStorageManager.applyBookmarks(bookmarks);
+    expect(visitStorageManager.getEntry(URL)).toMatchObject({
+      count: 0,
+      isBookmark: true,
+    });
+  });
+});
@@ -7,7 +7,8 @@ module.exports = (env, argv) => {
   return {
     entry: {
       popup: './src/core/popup.ts',
-      background: './src/core/background.ts'
+      background: './src/core/background.ts',
+      options: './src/core/options.ts'
     },
     output: {
       path: path.resolve(__dirname, 'dist'),
@@ -37,6 +38,10 @@ module.exports = (env, argv) => {
             from: 'src/core/styles.css',
             to: 'styles.css'
           },
+          {
+            from: 'src/core/options.css',
+            to: 'options.css'
+          },
           {
             from: 'assets',
             to: 'assets'